@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "public"."activities" ADD COLUMN     "deviceId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."devices" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "keyPrefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "scopes" TEXT[] DEFAULT ARRAY['activities:write']::TEXT[],
+    "lastSeenAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "devices_keyHash_key" ON "public"."devices"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "devices_profileId_idx" ON "public"."devices"("profileId");
+
+-- AddForeignKey
+ALTER TABLE "public"."devices" ADD CONSTRAINT "devices_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."activities" ADD CONSTRAINT "activities_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "public"."devices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
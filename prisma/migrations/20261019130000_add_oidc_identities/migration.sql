@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "public"."users" ALTER COLUMN "password" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."workspaces" ADD COLUMN     "ssoAutoProvision" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "ssoDomain" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."user_identities" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "issuer" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workspaces_ssoDomain_key" ON "public"."workspaces"("ssoDomain");
+
+-- CreateIndex
+CREATE INDEX "user_identities_userId_idx" ON "public"."user_identities"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_issuer_subject_key" ON "public"."user_identities"("issuer", "subject");
+
+-- AddForeignKey
+ALTER TABLE "public"."user_identities" ADD CONSTRAINT "user_identities_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
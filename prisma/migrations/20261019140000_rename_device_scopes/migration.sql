@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."devices" ALTER COLUMN "scopes" SET DEFAULT ARRAY['activity:write']::TEXT[];
+
+-- Device scopes now use permission names
+UPDATE "public"."devices" SET "scopes" = array_replace("scopes", 'activities:write', 'activity:write');
@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "public"."workspace_roles" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "key" TEXT,
+    "permissions" TEXT[],
+    "isBuiltIn" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workspace_roles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workspace_roles_workspaceId_name_key" ON "public"."workspace_roles"("workspaceId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workspace_roles_workspaceId_key_key" ON "public"."workspace_roles"("workspaceId", "key");
+
+-- AddForeignKey
+ALTER TABLE "public"."workspace_roles" ADD CONSTRAINT "workspace_roles_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "public"."workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the built-in roles of every existing workspace
+INSERT INTO "public"."workspace_roles" ("id", "workspaceId", "name", "key", "permissions", "isBuiltIn", "updatedAt")
+SELECT gen_random_uuid()::text, w."id", r."name", r."key", r."permissions", true, CURRENT_TIMESTAMP
+FROM "public"."workspaces" w
+CROSS JOIN (VALUES
+    ('Admin', 'ADMIN', ARRAY['activity:read', 'activity:write', 'activity:read:members', 'activity:read:project-members', 'project:read', 'project:write', 'report:read', 'insight:read', 'member:read', 'member:manage', 'role:manage', 'workspace:manage', 'device:manage']),
+    ('Member', 'USER', ARRAY['activity:read', 'activity:write', 'project:read', 'insight:read', 'member:read', 'device:manage']),
+    ('Manager', 'MANAGER', ARRAY['activity:read', 'activity:write', 'activity:read:project-members', 'project:read', 'insight:read', 'member:read', 'device:manage']),
+    ('Billing', 'BILLING', ARRAY['project:read', 'report:read', 'member:read']),
+    ('Viewer', 'VIEWER', ARRAY['activity:read', 'project:read', 'insight:read', 'member:read'])
+) AS r("name", "key", "permissions");
+
+-- AlterTable
+ALTER TABLE "public"."profiles" ADD COLUMN "roleId" TEXT;
+
+UPDATE "public"."profiles" p SET "roleId" = r."id"
+FROM "public"."workspace_roles" r
+WHERE r."workspaceId" = p."workspaceId" AND r."key" = p."role"::text;
+
+ALTER TABLE "public"."profiles" ALTER COLUMN "roleId" SET NOT NULL,
+DROP COLUMN "role";
+
+-- AlterTable
+ALTER TABLE "public"."invitations" ADD COLUMN "roleId" TEXT;
+
+UPDATE "public"."invitations" i SET "roleId" = r."id"
+FROM "public"."workspace_roles" r
+WHERE r."workspaceId" = i."workspaceId" AND r."key" = i."role"::text;
+
+ALTER TABLE "public"."invitations" ALTER COLUMN "roleId" SET NOT NULL,
+DROP COLUMN "role";
+
+-- DropEnum
+DROP TYPE "public"."Role";
+
+-- AddForeignKey
+ALTER TABLE "public"."profiles" ADD CONSTRAINT "profiles_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "public"."workspace_roles"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invitations" ADD CONSTRAINT "invitations_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "public"."workspace_roles"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
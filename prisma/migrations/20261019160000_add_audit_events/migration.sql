@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "public"."AuditAction" AS ENUM ('MEMBER_INVITED', 'INVITATION_REVOKED', 'MEMBER_JOINED', 'MEMBER_ROLE_CHANGED', 'MEMBER_REMOVED', 'MEMBER_ACTIVITY_VIEWED', 'ROLE_CREATED', 'ROLE_UPDATED', 'ROLE_DELETED', 'WORKSPACE_UPDATED');
+
+-- CreateTable
+CREATE TABLE "public"."audit_events" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "action" "public"."AuditAction" NOT NULL,
+    "targetId" TEXT,
+    "before" JSONB,
+    "after" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_workspaceId_createdAt_idx" ON "public"."audit_events"("workspaceId", "createdAt");
+
+-- Audit events are append-only
+CREATE FUNCTION "public"."audit_events_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "audit_events_no_update_or_delete"
+BEFORE UPDATE OR DELETE ON "public"."audit_events"
+FOR EACH ROW EXECUTE FUNCTION "public"."audit_events_append_only"();
+
+CREATE TRIGGER "audit_events_no_truncate"
+BEFORE TRUNCATE ON "public"."audit_events"
+FOR EACH STATEMENT EXECUTE FUNCTION "public"."audit_events_append_only"();
+
+-- Admins can read the audit log
+UPDATE "public"."workspace_roles" SET "permissions" = array_append("permissions", 'audit:read')
+WHERE "key" = 'ADMIN';
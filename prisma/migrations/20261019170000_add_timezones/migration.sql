@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."profiles" ADD COLUMN     "timezone" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."workspaces" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- Existing data was bucketed in IST
+UPDATE "public"."workspaces" SET "timezone" = 'Asia/Kolkata';
@@ -0,0 +1,44 @@
+-- Timestamps that don't parse fall back to the row's creation time
+CREATE FUNCTION pg_temp.try_timestamptz(value TEXT) RETURNS TIMESTAMPTZ AS $$
+BEGIN
+  RETURN value::TIMESTAMPTZ;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- AlterTable
+ALTER TABLE "public"."activities" ALTER COLUMN "timestamp" SET DATA TYPE TIMESTAMPTZ(3) USING COALESCE(pg_temp.try_timestamptz("timestamp"), "createdAt");
+
+-- AlterTable
+ALTER TABLE "public"."activities" ADD COLUMN     "mergedSpans" JSONB;
+
+-- Convert "timestamp|duration,..." into [{ "start", "duration" }]
+UPDATE "public"."activities" a
+SET "mergedSpans" = spans.value
+FROM (
+  SELECT
+    id,
+    jsonb_agg(
+      jsonb_build_object(
+        'start', to_char(pg_temp.try_timestamptz(split_part(part, '|', 1)) AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'),
+        'duration', split_part(part, '|', 2)::INTEGER
+      )
+      ORDER BY ordinality
+    ) AS value
+  FROM "public"."activities",
+    unnest(string_to_array("mergedTimestamp", ',')) WITH ORDINALITY AS p(part, ordinality)
+  WHERE split_part(part, '|', 2) ~ '^[0-9]+$'
+    AND pg_temp.try_timestamptz(split_part(part, '|', 1)) IS NOT NULL
+  GROUP BY id
+) spans
+WHERE a.id = spans.id;
+
+-- AlterTable
+ALTER TABLE "public"."activities" DROP COLUMN "mergedTimestamp";
+
+-- CreateIndex
+CREATE INDEX "activities_profileId_timestamp_idx" ON "public"."activities"("profileId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "activities_profileId_selected_timestamp_idx" ON "public"."activities"("profileId", "selected", "timestamp");
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "public"."activity_segments" (
+    "id" TEXT NOT NULL,
+    "activityId" TEXT NOT NULL,
+    "start" TIMESTAMPTZ(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+
+    CONSTRAINT "activity_segments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "activity_segments_activityId_idx" ON "public"."activity_segments"("activityId");
+
+-- CreateIndex
+CREATE INDEX "activity_segments_start_idx" ON "public"."activity_segments"("start");
+
+-- AddForeignKey
+ALTER TABLE "public"."activity_segments" ADD CONSTRAINT "activity_segments_activityId_fkey" FOREIGN KEY ("activityId") REFERENCES "public"."activities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move merged spans into segments. Joined urls can't be split reliably,
+-- so only activities with a single url pass it on.
+INSERT INTO "public"."activity_segments" ("id", "activityId", "start", "duration", "url")
+SELECT
+  gen_random_uuid()::text,
+  a."id",
+  (span->>'start')::TIMESTAMPTZ,
+  (span->>'duration')::INTEGER,
+  CASE WHEN position(',' IN a."url") = 0 THEN a."url" ELSE '' END
+FROM "public"."activities" a,
+  jsonb_array_elements(
+    CASE WHEN jsonb_typeof(a."mergedSpans") = 'array' THEN a."mergedSpans" ELSE '[]'::JSONB END
+  ) AS span;
+
+-- AlterTable
+ALTER TABLE "public"."activities" DROP COLUMN "mergedSpans";
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "public"."profiles" ADD COLUMN     "idleThresholdSeconds" INTEGER NOT NULL DEFAULT 180;
+
+-- AlterTable
+ALTER TABLE "public"."activities" ADD COLUMN     "rawDuration" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."activity_segments" ADD COLUMN     "rawDuration" INTEGER;
+
+-- Nothing was subtracted so far
+UPDATE "public"."activities" SET "rawDuration" = "duration";
+UPDATE "public"."activity_segments" SET "rawDuration" = "duration";
+
+-- AlterTable
+ALTER TABLE "public"."activity_segments" ALTER COLUMN "rawDuration" SET NOT NULL;
+
+-- CreateTable
+CREATE TABLE "public"."afk_periods" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "start" TIMESTAMPTZ(3) NOT NULL,
+    "end" TIMESTAMPTZ(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "afk_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "afk_periods_profileId_start_key" ON "public"."afk_periods"("profileId", "start");
+
+-- CreateIndex
+CREATE INDEX "afk_periods_profileId_end_idx" ON "public"."afk_periods"("profileId", "end");
+
+-- AddForeignKey
+ALTER TABLE "public"."afk_periods" ADD CONSTRAINT "afk_periods_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "public"."activities" ADD COLUMN     "eventId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."activity_segments" ADD COLUMN     "eventId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."idempotency_keys" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "requestHash" TEXT NOT NULL,
+    "response" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "idempotency_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "activities_profileId_eventId_key" ON "public"."activities"("profileId", "eventId");
+
+-- CreateIndex
+CREATE INDEX "activity_segments_eventId_idx" ON "public"."activity_segments"("eventId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "idempotency_keys_profileId_key_key" ON "public"."idempotency_keys"("profileId", "key");
+
+-- AddForeignKey
+ALTER TABLE "public"."idempotency_keys" ADD CONSTRAINT "idempotency_keys_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."buckets" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "deviceId" TEXT,
+    "bucketId" TEXT NOT NULL,
+    "name" TEXT,
+    "type" TEXT NOT NULL,
+    "client" TEXT NOT NULL,
+    "hostname" TEXT NOT NULL,
+    "lastHeartbeat" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "buckets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "buckets_profileId_bucketId_key" ON "public"."buckets"("profileId", "bucketId");
+
+-- AddForeignKey
+ALTER TABLE "public"."buckets" ADD CONSTRAINT "buckets_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."buckets" ADD CONSTRAINT "buckets_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "public"."devices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "public"."ImportStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."import_jobs" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "preset" TEXT NOT NULL,
+    "status" "public"."ImportStatus" NOT NULL DEFAULT 'RUNNING',
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "importedRows" INTEGER NOT NULL DEFAULT 0,
+    "deduplicatedRows" INTEGER NOT NULL DEFAULT 0,
+    "failedRows" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB NOT NULL DEFAULT '[]',
+    "failureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "import_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_jobs_profileId_createdAt_idx" ON "public"."import_jobs"("profileId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."import_jobs" ADD CONSTRAINT "import_jobs_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
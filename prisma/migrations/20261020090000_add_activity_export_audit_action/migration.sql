@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."AuditAction" ADD VALUE 'MEMBER_ACTIVITY_EXPORTED';
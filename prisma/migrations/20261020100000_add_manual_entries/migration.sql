@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."ActivitySource" AS ENUM ('TRACKER', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "public"."activities" ADD COLUMN     "source" "public"."ActivitySource" NOT NULL DEFAULT 'TRACKER';
+
+-- CreateTable
+CREATE TABLE "public"."timers" (
+    "id" TEXT NOT NULL,
+    "profileId" TEXT NOT NULL,
+    "start" TIMESTAMPTZ(3) NOT NULL,
+    "projectId" INTEGER,
+    "description" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "timers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timers_profileId_key" ON "public"."timers"("profileId");
+
+-- AddForeignKey
+ALTER TABLE "public"."timers" ADD CONSTRAINT "timers_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."timers" ADD CONSTRAINT "timers_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "public"."activities" ADD COLUMN     "projectRuleId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."project_rules" (
+    "id" SERIAL NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "profileId" TEXT,
+    "app" TEXT,
+    "titlePattern" TEXT,
+    "urlPattern" TEXT,
+    "tag" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "project_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_rules_projectId_idx" ON "public"."project_rules"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "public"."activities" ADD CONSTRAINT "activities_projectRuleId_fkey" FOREIGN KEY ("projectRuleId") REFERENCES "public"."project_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."project_rules" ADD CONSTRAINT "project_rules_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."project_rules" ADD CONSTRAINT "project_rules_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "public"."activities" ADD COLUMN     "billable" BOOLEAN;
+
+-- AlterTable
+ALTER TABLE "public"."projects" ADD COLUMN     "billable" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "public"."hourly_rates" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "projectId" INTEGER,
+    "profileId" TEXT,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "effectiveFrom" DATE NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "hourly_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "hourly_rates_workspaceId_effectiveFrom_idx" ON "public"."hourly_rates"("workspaceId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "public"."hourly_rates" ADD CONSTRAINT "hourly_rates_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "public"."workspaces"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."hourly_rates" ADD CONSTRAINT "hourly_rates_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."hourly_rates" ADD CONSTRAINT "hourly_rates_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "public"."profiles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
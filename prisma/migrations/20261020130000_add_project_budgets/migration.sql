@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "public"."BudgetType" AS ENUM ('HOURS', 'MONEY');
+
+-- CreateEnum
+CREATE TYPE "public"."BudgetPeriod" AS ENUM ('ONCE', 'MONTHLY');
+
+-- CreateTable
+CREATE TABLE "public"."project_budgets" (
+    "id" TEXT NOT NULL,
+    "projectId" INTEGER NOT NULL,
+    "type" "public"."BudgetType" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT,
+    "period" "public"."BudgetPeriod" NOT NULL DEFAULT 'ONCE',
+    "startDate" DATE NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "project_budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."budget_alerts" (
+    "id" TEXT NOT NULL,
+    "budgetId" TEXT NOT NULL,
+    "periodStart" DATE NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "budget_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "project_budgets_projectId_key" ON "public"."project_budgets"("projectId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "budget_alerts_budgetId_periodStart_threshold_key" ON "public"."budget_alerts"("budgetId", "periodStart", "threshold");
+
+-- AddForeignKey
+ALTER TABLE "public"."project_budgets" ADD CONSTRAINT "project_budgets_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."budget_alerts" ADD CONSTRAINT "budget_alerts_budgetId_fkey" FOREIGN KEY ("budgetId") REFERENCES "public"."project_budgets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- DropForeignKey
+ALTER TABLE "public"."activities" DROP CONSTRAINT "activities_projectId_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."projects" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "projects_deletedAt_idx" ON "public"."projects"("deletedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."activities" ADD CONSTRAINT "activities_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
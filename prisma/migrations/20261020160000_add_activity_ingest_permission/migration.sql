@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."devices" ALTER COLUMN "scopes" SET DEFAULT ARRAY['activity:ingest']::TEXT[];
+
+-- Device keys are limited to ingestion
+UPDATE "public"."devices" SET "scopes" = array_replace("scopes", 'activity:write', 'activity:ingest');
+
+-- Roles that could write activities keep sending them
+UPDATE "public"."workspace_roles" SET "permissions" = array_append("permissions", 'activity:ingest')
+WHERE 'activity:write' = ANY("permissions") AND NOT 'activity:ingest' = ANY("permissions");
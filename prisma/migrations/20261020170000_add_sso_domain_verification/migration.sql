@@ -0,0 +1,17 @@
+-- DropIndex
+DROP INDEX "public"."workspaces_ssoDomain_key";
+
+-- AlterTable
+ALTER TABLE "public"."workspaces" ADD COLUMN     "ssoDomainToken" TEXT,
+ADD COLUMN     "ssoDomainVerifiedAt" TIMESTAMP(3);
+
+-- Domains set before verification existed have to be proven again
+UPDATE "public"."workspaces" SET "ssoDomainToken" = md5(random()::text || "id")
+WHERE "ssoDomain" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "workspaces_ssoDomain_idx" ON "public"."workspaces"("ssoDomain");
+
+-- A domain can be claimed by many workspaces but verified by one
+CREATE UNIQUE INDEX "workspaces_ssoDomain_verified_key" ON "public"."workspaces"("ssoDomain")
+WHERE "ssoDomainVerifiedAt" IS NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."buckets" ADD COLUMN     "heartbeatVersion" INTEGER NOT NULL DEFAULT 0;
@@ -10,27 +10,52 @@ import {
 } from "fastify-type-provider-zod";
 import prismaPlugin from "./plugins/prisma-plugin";
 import errorHandlerPlugin from "./plugins/error/plugin";
+import mailPlugin from "./plugins/mail/plugin";
+import rateLimitPlugin from "./plugins/rate-limit/plugin";
 import authMiddleware from "./plugins/auth/auth";
+import { enforceRoutePolicy } from "./plugins/auth/permissions";
 import authRoutes from "./modules/auth/routes";
 import activityRoutes from "./modules/activities/routes";
 import { createEventsMergeJob } from "./plugins/cron/events-merge";
 import projectRoutes from "./modules/projects/routes";
+import clientRoutes from "./modules/clients/routes";
 import insightRoutes from "./modules/insights/routes";
 import workspaceRoutes from "./modules/workspaces/routes";
+import roleRoutes from "./modules/roles/routes";
+import auditRoutes from "./modules/audit/routes";
+import deviceRoutes from "./modules/devices/routes";
+import activityWatchRoutes from "./modules/activitywatch/routes";
+import importRoutes from "./modules/imports/routes";
+import exportRoutes from "./modules/exports/routes";
+import timerRoutes from "./modules/timers/routes";
+import rateRoutes from "./modules/rates/routes";
+import reportRoutes from "./modules/reports/routes";
+import budgetRoutes from "./modules/budgets/routes";
+import oidcRoutes from "./modules/oidc/routes";
 import { createTaggingJob } from "./plugins/cron/tagging";
 import { createDailyInsightsJob } from "./plugins/cron/daily-insights";
+import { createProjectRulesJob } from "./plugins/cron/project-rules";
+import { createBudgetAlertsJob } from "./plugins/cron/budget-alerts";
+import { createProjectPurgeJob } from "./plugins/cron/project-purge";
 const app = Fastify({
   logger: true,
+  // Needed for correct client IPs (rate limiting) behind a proxy
+  trustProxy: process.env.TRUST_PROXY === "true",
 });
 
+// Added first so every route below is checked for a declared permission
+app.addHook("onRoute", enforceRoutePolicy);
+
 app.register(cors, {
   origin: "*",
   methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-  allowedHeaders: ["Content-Type", "Authorization"],
+  allowedHeaders: ["Content-Type", "Authorization", "Idempotency-Key"],
 });
 
 app.register(prismaPlugin);
 app.register(errorHandlerPlugin);
+app.register(mailPlugin);
+app.register(rateLimitPlugin);
 app.register(fastifySchedule);
 app.setValidatorCompiler(validatorCompiler);
 app.setSerializerCompiler(serializerCompiler);
@@ -67,18 +92,34 @@ app.register(authMiddleware);
 
 // Register routes
 app.register(authRoutes, { prefix: "/auth" });
+app.register(oidcRoutes, { prefix: "/auth/oidc" });
 app.register(activityRoutes, { prefix: "/activities" });
+app.register(importRoutes, { prefix: "/activities/import" });
+app.register(exportRoutes, { prefix: "/activities/export" });
+app.register(timerRoutes, { prefix: "/timers" });
 app.register(projectRoutes, { prefix: "/projects" });
+app.register(reportRoutes, { prefix: "/projects" });
+app.register(budgetRoutes, { prefix: "/projects" });
+app.register(clientRoutes, { prefix: "/clients" });
+app.register(rateRoutes, { prefix: "/rates" });
 app.register(insightRoutes, { prefix: "/insights" });
 app.register(workspaceRoutes, { prefix: "/workspaces" });
+app.register(roleRoutes, { prefix: "/workspaces" });
+app.register(auditRoutes, { prefix: "/workspaces" });
+app.register(deviceRoutes, { prefix: "/devices" });
+app.register(activityWatchRoutes, { prefix: "/api/0" });
 
-app.get("/", async function handler() {
+app.get("/", { config: { permission: "public" } }, async function handler() {
   return "Tick Tick Track your activity without fuss";
 });
 
-app.get("/health", async function handler() {
-  return { message: "App is Strong and healthy 🚀" };
-});
+app.get(
+  "/health",
+  { config: { permission: "public" } },
+  async function handler() {
+    return { message: "App is Strong and healthy 🚀" };
+  }
+);
 
 app.listen({ port: parseInt(process.env.PORT || "3000") }, (err) => {
   if (err) {
@@ -95,4 +136,10 @@ app.ready().then(() => {
   app.scheduler.addCronJob(taggingJob);
   const dailyInsightsJob = createDailyInsightsJob(app);
   app.scheduler.addCronJob(dailyInsightsJob);
+  const budgetAlertsJob = createBudgetAlertsJob(app);
+  app.scheduler.addCronJob(budgetAlertsJob);
+  const projectRulesJob = createProjectRulesJob(app);
+  app.scheduler.addCronJob(projectRulesJob);
+  const projectPurgeJob = createProjectPurgeJob(app);
+  app.scheduler.addCronJob(projectPurgeJob);
 });
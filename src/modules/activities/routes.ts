@@ -1,17 +1,23 @@
 import { FastifyPluginAsync } from "fastify";
 import { ZodTypeProvider } from "fastify-type-provider-zod";
 import {
-  CREATE_ACTIVITY_SCHEMA,
+  INGEST_EVENT_SCHEMA,
+  INGEST_HEADERS_SCHEMA,
+  MANUAL_ENTRY_SCHEMA,
   UPDATE_ACTIVITY_SCHEMA,
   ACTIVITY_ID_PARAM_SCHEMA,
   ACTIVITIES_QUERY_SCHEMA,
   TOP_ACTIVITIES_QUERY_SCHEMA,
   SELECT_ACTIVITIES_SCHEMA,
+  SET_BILLABLE_SCHEMA,
   ADD_PROJECT_SCHEMA,
   USER_SELECT_DATA_QUERY_SCHEMA,
+  TIMELINE_QUERY_SCHEMA,
 } from "./schema";
 import {
   createActivity,
+  createManualEntry,
+  updateManualEntry,
   getActivities,
   updateActivity,
   deleteActivity,
@@ -19,11 +25,18 @@ import {
   getTopApps,
   getTopActivities,
   selectActivities,
+  setActivitiesBillable,
   activitiesForSelection,
   addActivitiesToProject,
   getUserSelectData,
+  getTimeline,
 } from "./service";
 import z from "zod";
+import { hasPermission } from "../../plugins/auth/permissions";
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  runIdempotent,
+} from "../../plugins/idempotency/keys";
 
 const activityRoutes: FastifyPluginAsync = async (fastify) => {
   const prisma = fastify.prisma;
@@ -32,16 +45,77 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/",
+    config: { permission: "activity:ingest" },
     schema: {
-      body: z.array(CREATE_ACTIVITY_SCHEMA),
+      body: z.array(INGEST_EVENT_SCHEMA),
+      headers: INGEST_HEADERS_SCHEMA,
     },
     handler: async (request, reply) => {
       const { profileId = "" } = request.user || {};
       const input = request.body;
-      await createActivity(input, profileId, prisma);
+      const { response, replayed } = await runIdempotent(
+        prisma,
+        profileId,
+        request.headers[IDEMPOTENCY_KEY_HEADER],
+        input,
+        () =>
+          createActivity(
+            input,
+            profileId,
+            prisma,
+            fastify.rateLimiter,
+            request.device?.id
+          )
+      );
+
+      if (replayed) reply.header("Idempotent-Replayed", "true");
 
       return reply.status(201).send({
         message: "Activities created successfully",
+        data: response,
+      });
+    },
+  });
+
+  // Log a manual entry, e.g. a meeting away from the computer
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/manual",
+    config: { permission: "activity:write" },
+    schema: {
+      body: MANUAL_ENTRY_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await createManualEntry(request.body, profileId, prisma);
+
+      return reply.status(201).send({
+        data: result,
+      });
+    },
+  });
+
+  // Update a manual entry
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "PUT",
+    url: "/manual/:id",
+    config: { permission: "activity:write" },
+    schema: {
+      params: ACTIVITY_ID_PARAM_SCHEMA,
+      body: MANUAL_ENTRY_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const { id } = request.params;
+      const result = await updateManualEntry(
+        id,
+        request.body,
+        profileId,
+        prisma
+      );
+
+      return reply.send({
+        data: result,
       });
     },
   });
@@ -50,6 +124,7 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/",
+    config: { permission: "activity:read" },
     schema: {
       querystring: ACTIVITIES_QUERY_SCHEMA,
     },
@@ -68,6 +143,7 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/stats",
+    config: { permission: "activity:read" },
     handler: async (request, reply) => {
       const { profileId = "" } = request.user || {};
       const result = await getActivityStats(profileId, prisma);
@@ -82,6 +158,7 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/top-apps",
+    config: { permission: "activity:read" },
     schema: {
       querystring: TOP_ACTIVITIES_QUERY_SCHEMA,
     },
@@ -100,6 +177,7 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/top",
+    config: { permission: "activity:read" },
     schema: {
       querystring: TOP_ACTIVITIES_QUERY_SCHEMA,
     },
@@ -114,10 +192,29 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
     },
   });
 
+  // Get the events of a day in order
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/timeline",
+    config: { permission: "activity:read" },
+    schema: {
+      querystring: TIMELINE_QUERY_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await getTimeline(profileId, request.query, prisma);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
   // Update activity
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "PUT",
     url: "/:id",
+    config: { permission: "activity:write" },
     schema: {
       params: ACTIVITY_ID_PARAM_SCHEMA,
       body: UPDATE_ACTIVITY_SCHEMA,
@@ -138,6 +235,7 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "DELETE",
     url: "/:id",
+    config: { permission: "activity:write" },
     schema: {
       params: ACTIVITY_ID_PARAM_SCHEMA,
     },
@@ -156,6 +254,7 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/select",
+    config: { permission: "activity:write" },
     schema: {
       body: SELECT_ACTIVITIES_SCHEMA,
     },
@@ -171,16 +270,36 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
     },
   });
 
+  // Mark activities billable or non-billable
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/billable",
+    config: { permission: "activity:write" },
+    schema: {
+      body: SET_BILLABLE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const { activityIds, billable } = request.body;
+      await setActivitiesBillable(activityIds, profileId, prisma, billable);
+
+      return reply.send({
+        message: "Activities updated successfully",
+      });
+    },
+  });
+
   // Select activities
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/for-user-select",
+    config: { permission: "activity:read" },
     schema: {
       querystring: ACTIVITIES_QUERY_SCHEMA,
     },
     handler: async (request, reply) => {
       const { profileId = "" } = request.user || {};
-      const { startDate = "", endDate = "" } = request.query;
+      const { startDate, endDate } = request.query;
       const result = await activitiesForSelection(
         profileId,
         prisma,
@@ -198,15 +317,22 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/add-project",
+    config: { permission: "activity:write" },
     schema: {
       body: ADD_PROJECT_SCHEMA,
     },
     handler: async (request, reply) => {
       const { profileId = "" } = request.user || {};
-      const { activityIds, projectId } = request.body;
+      const { activityIds, projectId, taskId } = request.body;
 
       try {
-        await addActivitiesToProject(activityIds, projectId, profileId, prisma);
+        await addActivitiesToProject(
+          activityIds,
+          projectId,
+          profileId,
+          prisma,
+          taskId
+        );
 
         return reply.send({
           message: "Activities added to project successfully",
@@ -225,15 +351,17 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/user-select",
+    config: { permission: "activity:read" },
     schema: {
       querystring: USER_SELECT_DATA_QUERY_SCHEMA,
     },
     handler: async (request, reply) => {
-      const { profileId = "" } = request.user || {};
+      const { profileId = "", workspaceId = "" } = request.user || {};
       const { startDate, endDate } = request.query;
 
       const result = await getUserSelectData(
         profileId,
+        workspaceId,
         { startDate, endDate },
         prisma
       );
@@ -246,6 +374,9 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/user-select/:profileId",
+    config: {
+      permission: ["activity:read:members", "activity:read:project-members"],
+    },
     schema: {
       params: z.object({
         profileId: z.string().min(1, "Profile ID is required"),
@@ -254,13 +385,27 @@ const activityRoutes: FastifyPluginAsync = async (fastify) => {
     },
     handler: async (request, reply) => {
       const { profileId } = request.params;
-
+      const {
+        userId = "",
+        profileId: viewerProfileId = "",
+        workspaceId = "",
+      } = request.user || {};
       const { startDate, endDate } = request.query;
 
+      // Without workspace-wide access only shared projects are visible
       const result = await getUserSelectData(
         profileId,
+        workspaceId,
         { startDate, endDate },
-        prisma
+        prisma,
+        {
+          userId,
+          profileId: viewerProfileId,
+          sharedProjectsOnly: !hasPermission(
+            request.permissions || [],
+            "activity:read:members"
+          ),
+        }
       );
 
       return reply.send({
@@ -16,6 +16,14 @@ const sanitizeString = z.string().transform((str) => {
     .trim(); // Remove leading/trailing whitespace
 });
 
+// ISO-8601 date-time with an explicit offset, e.g. 2025-01-31T09:30:00.000Z
+export const TIMESTAMP_SCHEMA = z.iso
+  .datetime({
+    offset: true,
+    message: "Timestamp must be an ISO-8601 date-time",
+  })
+  .transform((value) => new Date(value));
+
 export const EVENT_DATA_SCHEMA = z.object({
   app: sanitizeString.optional().default(""),
   url: sanitizeString.default(""),
@@ -23,25 +31,64 @@ export const EVENT_DATA_SCHEMA = z.object({
 });
 
 export const CREATE_ACTIVITY_SCHEMA = z.object({
+  // Retried events with the same ID are skipped
+  eventId: z.string().min(1).max(128).optional(),
   data: EVENT_DATA_SCHEMA,
-  timestamp: z.string().min(1, "Timestamp is required"),
+  timestamp: TIMESTAMP_SCHEMA,
   duration: z.number().default(0),
 });
 
+// Heartbeat of an ActivityWatch-style afkstatus watcher
+export const AFK_EVENT_SCHEMA = z.object({
+  data: z.object({ status: z.enum(["afk", "not-afk"]) }),
+  timestamp: TIMESTAMP_SCHEMA,
+  duration: z.number().min(0).default(0),
+});
+
+// AFK heartbeats are tried first, activity data has defaults for every field
+export const INGEST_EVENT_SCHEMA = z.union([
+  AFK_EVENT_SCHEMA,
+  CREATE_ACTIVITY_SCHEMA,
+]);
+
+export const INGEST_HEADERS_SCHEMA = z.object({
+  "idempotency-key": z.string().min(1).max(255).optional(),
+});
+
 export const UPDATE_ACTIVITY_SCHEMA = z.object({
   data: EVENT_DATA_SCHEMA.optional(),
-  timestamp: z.string().min(1, "Timestamp is required").optional(),
-  duration: z.number().default(0),
+  timestamp: TIMESTAMP_SCHEMA.optional(),
+  // Tracked seconds before AFK time is taken off, left as is when omitted
+  duration: z.number().int().min(0).optional(),
   description: sanitizeString.optional(),
 });
 
+export const MANUAL_ENTRY_SCHEMA = z
+  .object({
+    start: TIMESTAMP_SCHEMA,
+    end: TIMESTAMP_SCHEMA,
+    projectId: z.number().int().min(1).nullable().optional(),
+    taskId: z.number().int().min(1).nullable().optional(),
+    description: sanitizeString.pipe(
+      z.string().min(1, "Description is required").max(500)
+    ),
+  })
+  .refine((entry) => entry.start < entry.end, {
+    message: "end must be after start",
+    path: ["end"],
+  })
+  .refine((entry) => !entry.taskId || entry.projectId, {
+    message: "A task needs its project",
+    path: ["projectId"],
+  });
+
 export const ACTIVITY_ID_PARAM_SCHEMA = z.object({
   id: z.string().min(1, "Activity ID is required"),
 });
 
 export const ACTIVITIES_QUERY_SCHEMA = z.object({
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
 });
 
 export const STATS_BY_DAY_QUERY_SCHEMA = z.object({
@@ -49,8 +96,8 @@ export const STATS_BY_DAY_QUERY_SCHEMA = z.object({
 });
 
 export const TOP_ACTIVITIES_QUERY_SCHEMA = z.object({
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
 });
 
 export const SELECT_ACTIVITIES_SCHEMA = z.object({
@@ -58,12 +105,37 @@ export const SELECT_ACTIVITIES_SCHEMA = z.object({
   selected: z.boolean().default(false),
 });
 
+export const SET_BILLABLE_SCHEMA = z.object({
+  activityIds: z.array(z.string().min(1, "Activity ID is required")),
+  // null falls back to the project's flag
+  billable: z.boolean().nullable(),
+});
+
 export const ADD_PROJECT_SCHEMA = z.object({
   activityIds: z.array(z.string().min(1, "Activity ID is required")),
   projectId: z.number().min(1, "Project ID is required"),
+  // Task of the project, none when left out
+  taskId: z.number().int().min(1).nullable().optional(),
 });
 
 export const USER_SELECT_DATA_QUERY_SCHEMA = z.object({
-  startDate: z.string(),
-  endDate: z.string(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+});
+
+export const TIMELINE_QUERY_SCHEMA = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .optional()
+    .describe("Day in the profile's timezone, defaults to today"),
+  gapSeconds: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .max(3600)
+    .default(120)
+    .describe(
+      "Events of the same app and title this close are joined, longer gaps are idle"
+    ),
 });
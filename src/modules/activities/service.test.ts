@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from "vitest";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { getUserSelectData, updateActivity } from "./service";
+
+function createPrisma() {
+  return {
+    profile: {
+      findFirst: vi.fn().mockResolvedValue({
+        id: "profile-1",
+        userId: "user-1",
+        timezone: "Europe/Berlin",
+        workspace: { timezone: "UTC" },
+      }),
+    },
+    $queryRaw: vi.fn().mockResolvedValue([]),
+    activity: { groupBy: vi.fn().mockResolvedValue([]) },
+  };
+}
+
+// $queryRaw is called as a tagged template
+function capturedQuery(queryRaw: ReturnType<typeof vi.fn>): Prisma.Sql {
+  const [strings, ...values] = queryRaw.mock.calls[0];
+  return Prisma.sql(strings, ...values);
+}
+
+describe("getUserSelectData", () => {
+  it("groups and orders the daily totals by the local date", async () => {
+    const prisma = createPrisma();
+
+    await getUserSelectData(
+      "profile-1",
+      "workspace-1",
+      {},
+      prisma as unknown as PrismaClient
+    );
+
+    const query = capturedQuery(prisma.$queryRaw);
+
+    // By the alias, so the select list can be reordered freely
+    expect(query.sql).toMatch(
+      /DATE\(timestamp AT TIME ZONE \?\)\s+as\s+"date"/
+    );
+    expect(query.sql).toMatch(/GROUP BY\s+"date"/);
+    expect(query.sql).toMatch(/ORDER BY\s+"date"\s+DESC/);
+    expect(query.values).toContain("Europe/Berlin");
+  });
+
+  it("only counts projects shared with the viewer", async () => {
+    const prisma = {
+      ...createPrisma(),
+      projectUser: {
+        findMany: vi.fn().mockResolvedValue([{ projectId: 7 }]),
+      },
+      auditEvent: { create: vi.fn() },
+    };
+
+    await getUserSelectData(
+      "profile-1",
+      "workspace-1",
+      {},
+      prisma as unknown as PrismaClient,
+      { userId: "user-2", profileId: "profile-2", sharedProjectsOnly: true }
+    );
+
+    const query = capturedQuery(prisma.$queryRaw);
+    expect(query.sql).toContain('"projectId" IN (?)');
+    expect(query.values).toContain(7);
+    expect(prisma.auditEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: "MEMBER_ACTIVITY_VIEWED" }),
+    });
+  });
+});
+
+describe("updateActivity", () => {
+  it("leaves the tracked durations alone on a description-only edit", async () => {
+    const prisma = {
+      tag: { findMany: vi.fn().mockResolvedValue([]) },
+      activity: {
+        update: vi.fn(async ({ data }) => ({
+          id: "activity-1",
+          source: "TRACKER",
+          merged: false,
+          ...data,
+        })),
+      },
+    };
+
+    await updateActivity(
+      "activity-1",
+      { description: "Planning" },
+      "profile-1",
+      prisma as unknown as PrismaClient
+    );
+
+    const { data } = prisma.activity.update.mock.calls[0][0];
+    expect(data).not.toHaveProperty("duration");
+    expect(data).not.toHaveProperty("rawDuration");
+  });
+});
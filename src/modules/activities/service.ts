@@ -1,14 +1,56 @@
-import { Activity, PrismaClient, Project, Prisma, Tag } from "@prisma/client";
+import {
+  Activity,
+  ActivitySource,
+  PrismaClient,
+  Project,
+  Prisma,
+  Tag,
+} from "@prisma/client";
 import {
   ActivityResponse,
+  AfkEventInput,
   CreateActivityInput,
+  IngestEventInput,
+  IngestionResult,
+  ManualEntryInput,
   UpdateActivityInput,
   TopActivityResponse,
+  TimelineBlock,
+  TimelineEntry,
+  TimelineQuery,
 } from "./types";
 import NodeCache from "node-cache";
+import { createHash } from "crypto";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+} from "../../plugins/error/plugin";
+import { RateLimiter, RateLimitRule } from "../../plugins/rate-limit/limiter";
+import { recordAuditEvent } from "../audit/service";
+import {
+  getApplicableRules,
+  matchProjectRule,
+} from "../../plugins/project-rules/matcher";
+import {
+  getLocalDate,
+  getZonedDayRange,
+  resolveTimeZone,
+} from "../../plugins/time/timezone";
 
 const EXCLUDED_APPS = ["loginwindow", "dock"];
 
+// Per-profile ingestion quota
+const INGESTION_RATE: RateLimitRule = {
+  limit: parseInt(process.env.INGESTION_EVENTS_PER_MINUTE || "2000"),
+  windowSeconds: 60,
+};
+const MAX_BATCH_SIZE = parseInt(process.env.INGESTION_MAX_BATCH_SIZE || "1000");
+
+// Manual entries show up under this app next to tracked ones
+const MANUAL_ENTRY_APP = "Manual entry";
+export const MAX_MANUAL_ENTRY_SECONDS = 24 * 60 * 60;
+
 // Initialize cache with a TTL of 1 hour (3600 seconds)
 const cache = new NodeCache({ stdTTL: 300 });
 
@@ -60,24 +102,75 @@ function sanitizeActivityData(
 }
 
 /**
- * Create a new activity
+ * Create activities and record AFK periods from a batch of tracker events
  */
 export async function createActivity(
-  activities: CreateActivityInput[],
+  events: IngestEventInput[],
   profileId: string,
-  prisma: PrismaClient
-) {
+  prisma: PrismaClient,
+  rateLimiter: RateLimiter,
+  deviceId?: string
+): Promise<IngestionResult> {
+  if (events.length > MAX_BATCH_SIZE) {
+    throw new AppError(
+      `Batch size exceeds the limit of ${MAX_BATCH_SIZE} events`,
+      413,
+      "BATCH_TOO_LARGE"
+    );
+  }
+
+  await rateLimiter.consume(
+    `ingestion:${profileId}`,
+    INGESTION_RATE,
+    events.length
+  );
+
+  return storeEvents(events, profileId, prisma, deviceId);
+}
+
+/**
+ * Store tracker events without batch or rate limits, e.g. for imports.
+ * Retried and re-imported events are skipped by their event ID, and
+ * project rules assign projects as events arrive.
+ */
+export async function storeEvents(
+  events: IngestEventInput[],
+  profileId: string,
+  prisma: PrismaClient,
+  deviceId?: string
+): Promise<IngestionResult> {
+  const afkEvents = events.filter(isAfkEvent);
+  const activities = events.filter(
+    (event): event is CreateActivityInput => !isAfkEvent(event)
+  );
+
   const tags = await getTags(prisma);
+  const rules = activities.length
+    ? await getApplicableRules(prisma, profileId)
+    : [];
 
   const mappedActivities = activities
     .map((activity) => {
-      const { data, timestamp, duration } = activity;
+      const { data, timestamp, duration, eventId } = activity;
       const sanitizedData = sanitizeActivityData(data, tags);
+      const rule = matchProjectRule(rules, { ...sanitizedData, profileId });
       return {
         ...sanitizedData,
+        projectId: rule?.projectId,
+        projectRuleId: rule?.id,
+        eventId:
+          eventId ||
+          hashEvent(
+            profileId,
+            timestamp,
+            sanitizedData.app,
+            sanitizedData.title
+          ),
         timestamp,
         duration,
+        rawDuration: duration,
         profileId,
+        deviceId,
       };
     })
     .filter((activity) => {
@@ -89,11 +182,297 @@ export async function createActivity(
       );
     });
 
-  await prisma.activity.createMany({
-    data: mappedActivities,
+  // Events already folded into a merged activity by the nightly merge
+  const mergedEventIds = new Set(
+    (
+      await prisma.activitySegment.findMany({
+        where: {
+          eventId: { in: mappedActivities.map((a) => a.eventId) },
+          activity: { profileId },
+        },
+        select: { eventId: true },
+      })
+    ).map((segment) => segment.eventId)
+  );
+
+  const { count: accepted } = await prisma.activity.createMany({
+    data: mappedActivities.filter((a) => !mergedEventIds.has(a.eventId)),
+    skipDuplicates: true,
+  });
+
+  await recordAfkPeriods(afkEvents, profileId, prisma);
+
+  // AFK heartbeats may arrive before or after the activity they overlap
+  if (events.length) {
+    await settleActiveDurations(
+      profileId,
+      {
+        start: new Date(Math.min(...events.map((e) => e.timestamp.getTime()))),
+        end: new Date(
+          Math.max(
+            ...events.map((e) => e.timestamp.getTime() + e.duration * 1000)
+          )
+        ),
+      },
+      prisma,
+      afkEvents.length > 0
+    );
+  }
+
+  return { accepted, deduplicated: mappedActivities.length - accepted };
+}
+
+/**
+ * Extend a tracked event, e.g. by a later heartbeat. Returns false when
+ * there is no such event left to extend, e.g. because it has been merged.
+ */
+export async function extendActivity(
+  profileId: string,
+  eventId: string,
+  rawDuration: number,
+  prisma: PrismaClient
+): Promise<boolean> {
+  const activity = await prisma.activity.findUnique({
+    where: { profileId_eventId: { profileId, eventId } },
+    select: { id: true, timestamp: true, merged: true },
   });
+  if (!activity || activity.merged) return false;
+
+  await prisma.activity.update({
+    where: { id: activity.id },
+    data: { duration: rawDuration, rawDuration },
+  });
+  await settleActiveDurations(
+    profileId,
+    {
+      start: activity.timestamp,
+      end: new Date(activity.timestamp.getTime() + rawDuration * 1000),
+    },
+    prisma
+  );
 
-  return;
+  return true;
+}
+
+/**
+ * Recompute active durations in a range if any AFK period overlaps it
+ */
+async function settleActiveDurations(
+  profileId: string,
+  range: { start: Date; end: Date },
+  prisma: PrismaClient,
+  force = false
+): Promise<void> {
+  const overlapsAfk =
+    force ||
+    (await prisma.afkPeriod.count({
+      where: {
+        profileId,
+        start: { lt: range.end },
+        end: { gt: range.start },
+      },
+    })) > 0;
+
+  if (overlapsAfk) {
+    await recomputeActiveDurations(profileId, range, prisma);
+  }
+}
+
+/**
+ * Deterministic ID for events sent without one, so a retried batch
+ * produces the same IDs
+ */
+function hashEvent(
+  profileId: string,
+  timestamp: Date,
+  app: string,
+  title: string
+): string {
+  return createHash("sha256")
+    .update([profileId, timestamp.toISOString(), app, title].join("\n"))
+    .digest("hex");
+}
+
+function isAfkEvent(event: IngestEventInput): event is AfkEventInput {
+  return "status" in event.data;
+}
+
+/**
+ * Store "afk" heartbeats as AFK periods. A watcher extending a heartbeat
+ * resends it with the same start and a longer duration.
+ */
+async function recordAfkPeriods(
+  events: AfkEventInput[],
+  profileId: string,
+  prisma: PrismaClient
+): Promise<void> {
+  for (const { data, timestamp, duration } of events) {
+    if (data.status !== "afk" || duration <= 0) continue;
+
+    const end = new Date(timestamp.getTime() + duration * 1000);
+    await prisma.afkPeriod.upsert({
+      where: { profileId_start: { profileId, start: timestamp } },
+      create: { profileId, start: timestamp, end },
+      update: { end },
+    });
+  }
+}
+
+/**
+ * Recalculate active durations of a profile's activities and merged
+ * segments overlapping a range as their raw duration minus AFK periods at
+ * least as long as the profile's idle threshold. Idempotent, so it can run
+ * whenever AFK periods or the threshold change. Manual entries keep the
+ * duration they were logged with.
+ */
+export async function recomputeActiveDurations(
+  profileId: string,
+  range: { start: Date; end: Date },
+  prisma: PrismaClient
+): Promise<void> {
+  // Spans overlapping the range, however long before it they started
+  const [overlappingActivities, overlappingSegments] = await Promise.all([
+    prisma.$queryRaw<{ id: string }[]>`
+      SELECT id FROM activities
+      WHERE "profileId" = ${profileId}
+        AND merged = false
+        AND source = 'TRACKER'
+        AND timestamp < ${range.end}
+        AND timestamp
+          + make_interval(secs => COALESCE("rawDuration", duration, 0))
+          > ${range.start}
+    `,
+    prisma.$queryRaw<{ id: string }[]>`
+      SELECT s.id FROM activity_segments s
+      JOIN activities a ON a.id = s."activityId"
+      WHERE a."profileId" = ${profileId}
+        AND s.start < ${range.end}
+        AND s.start + make_interval(secs => s."rawDuration") > ${range.start}
+    `,
+  ]);
+
+  const [profile, activities, segments] = await Promise.all([
+    prisma.profile.findUniqueOrThrow({
+      where: { id: profileId },
+      select: { idleThresholdSeconds: true },
+    }),
+    prisma.activity.findMany({
+      where: { id: { in: overlappingActivities.map(({ id }) => id) } },
+      select: { id: true, timestamp: true, duration: true, rawDuration: true },
+    }),
+    prisma.activitySegment.findMany({
+      where: { id: { in: overlappingSegments.map(({ id }) => id) } },
+      select: {
+        id: true,
+        activityId: true,
+        start: true,
+        duration: true,
+        rawDuration: true,
+      },
+    }),
+  ]);
+
+  const spans = [
+    ...activities.map((a) => ({
+      start: a.timestamp,
+      rawDuration: a.rawDuration ?? a.duration ?? 0,
+    })),
+    ...segments,
+  ];
+  if (!spans.length) return;
+
+  const spanStart = new Date(
+    spans.reduce((start, s) => Math.min(start, s.start.getTime()), Infinity)
+  );
+  const spanEnd = new Date(
+    spans.reduce(
+      (end, s) => Math.max(end, s.start.getTime() + s.rawDuration * 1000),
+      0
+    )
+  );
+  const afkPeriods = await prisma.afkPeriod.findMany({
+    where: { profileId, start: { lt: spanEnd }, end: { gt: spanStart } },
+    orderBy: { start: "asc" },
+  });
+  const idle = mergeIntervals(
+    afkPeriods.filter(
+      (period) =>
+        period.end.getTime() - period.start.getTime() >=
+        profile.idleThresholdSeconds * 1000
+    )
+  );
+
+  const activeSeconds = (start: Date, rawDuration: number) =>
+    rawDuration - overlapSeconds(start, rawDuration, idle);
+
+  await prisma.$transaction(async (tx) => {
+    for (const activity of activities) {
+      const rawDuration = activity.rawDuration ?? activity.duration ?? 0;
+      const duration = activeSeconds(activity.timestamp, rawDuration);
+      if (duration === activity.duration) continue;
+
+      await tx.activity.update({
+        where: { id: activity.id },
+        data: { duration, rawDuration },
+      });
+    }
+
+    const changedActivityIds = new Set<string>();
+    for (const segment of segments) {
+      const duration = activeSeconds(segment.start, segment.rawDuration);
+      if (duration === segment.duration) continue;
+
+      await tx.activitySegment.update({
+        where: { id: segment.id },
+        data: { duration },
+      });
+      changedActivityIds.add(segment.activityId);
+    }
+
+    // Merged activities last as long as their segments
+    const totals = await tx.activitySegment.groupBy({
+      by: ["activityId"],
+      where: { activityId: { in: [...changedActivityIds] } },
+      _sum: { duration: true },
+    });
+    for (const total of totals) {
+      await tx.activity.update({
+        where: { id: total.activityId },
+        data: { duration: total._sum.duration || 0 },
+      });
+    }
+  });
+}
+
+function mergeIntervals(
+  intervals: Array<{ start: Date; end: Date }>
+): Array<{ start: number; end: number }> {
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const { start, end } of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && start.getTime() <= last.end) {
+      last.end = Math.max(last.end, end.getTime());
+    } else {
+      merged.push({ start: start.getTime(), end: end.getTime() });
+    }
+  }
+  return merged;
+}
+
+function overlapSeconds(
+  start: Date,
+  duration: number,
+  intervals: Array<{ start: number; end: number }>
+): number {
+  const from = start.getTime();
+  const to = from + duration * 1000;
+  const overlap = intervals.reduce(
+    (total, interval) =>
+      total +
+      Math.max(0, Math.min(to, interval.end) - Math.max(from, interval.start)),
+    0
+  );
+  return Math.round(overlap / 1000);
 }
 
 /**
@@ -128,8 +507,8 @@ export async function getTags(prisma: PrismaClient): Promise<Tag[]> {
 export async function getActivities(
   profileId: string,
   query: {
-    startDate?: string;
-    endDate?: string;
+    startDate?: Date;
+    endDate?: Date;
   },
   prisma: PrismaClient
 ): Promise<ActivityResponse[]> {
@@ -138,12 +517,15 @@ export async function getActivities(
   const activities = await prisma.activity.findMany({
     where: {
       profileId,
-      createdAt: {
-        gte: new Date(startDate || ""),
-        lte: new Date(endDate || ""),
+      timestamp: {
+        gte: startDate,
+        lte: endDate,
       },
     },
-    orderBy: { createdAt: "desc" },
+    include: {
+      device: { select: { id: true, name: true } },
+    },
+    orderBy: { timestamp: "desc" },
   });
 
   return activities;
@@ -166,11 +548,30 @@ export async function updateActivity(
     data: {
       ...sanitizedData,
       timestamp,
-      duration,
+      ...(duration !== undefined && { duration, rawDuration: duration }),
       description: description ? sanitizeString(description) : description,
     },
   });
 
+  // Take AFK time off the new span again
+  if (
+    (duration !== undefined || timestamp !== undefined) &&
+    activity.source === "TRACKER" &&
+    !activity.merged
+  ) {
+    const rawDuration = activity.rawDuration ?? activity.duration ?? 0;
+    await recomputeActiveDurations(
+      profileId,
+      {
+        start: activity.timestamp,
+        end: new Date(activity.timestamp.getTime() + rawDuration * 1000),
+      },
+      prisma
+    );
+
+    return prisma.activity.findUniqueOrThrow({ where: { id } });
+  }
+
   return activity;
 }
 
@@ -187,6 +588,127 @@ export async function deleteActivity(
   });
 }
 
+/**
+ * Log time away from the tracker, e.g. a meeting or a call. Manual entries
+ * count as selected and are never merged or reduced by AFK periods.
+ */
+export async function createManualEntry(
+  input: ManualEntryInput,
+  profileId: string,
+  prisma: Prisma.TransactionClient
+): Promise<ActivityResponse> {
+  const data = await toManualEntryData(input, profileId, prisma);
+
+  return prisma.activity.create({
+    data: {
+      ...data,
+      profileId,
+      url: "",
+      selected: true,
+      source: "MANUAL",
+      // Nothing for the tagging job to learn from
+      isAutoTagged: true,
+    },
+  });
+}
+
+/**
+ * Update a manual entry
+ */
+export async function updateManualEntry(
+  id: string,
+  input: ManualEntryInput,
+  profileId: string,
+  prisma: PrismaClient
+): Promise<ActivityResponse> {
+  const entry = await prisma.activity.findFirst({
+    where: { id, profileId, source: "MANUAL" },
+    select: { id: true },
+  });
+
+  if (!entry) {
+    throw new NotFoundError("Manual entry not found");
+  }
+
+  return prisma.activity.update({
+    where: { id },
+    data: await toManualEntryData(input, profileId, prisma),
+  });
+}
+
+/**
+ * Check the profile is an active member of a project that can be assigned
+ */
+export async function assertProjectAccess(
+  projectId: number,
+  profileId: string,
+  prisma: Prisma.TransactionClient
+): Promise<void> {
+  const project = await prisma.project.findFirst({
+    where: {
+      id: projectId,
+      archivedAt: null,
+      deletedAt: null,
+      users: { some: { profileId, active: true } },
+    },
+    select: { id: true },
+  });
+
+  if (!project) {
+    throw new NotFoundError(
+      "Project not found or user does not have access to it"
+    );
+  }
+}
+
+/**
+ * Check a task belongs to a project
+ */
+export async function assertProjectTask(
+  taskId: number,
+  projectId: number,
+  prisma: Prisma.TransactionClient
+): Promise<void> {
+  const task = await prisma.task.findFirst({
+    where: { id: taskId, projectId },
+    select: { id: true },
+  });
+
+  if (!task) {
+    throw new NotFoundError("Task not found in this project");
+  }
+}
+
+async function toManualEntryData(
+  input: ManualEntryInput,
+  profileId: string,
+  prisma: Prisma.TransactionClient
+) {
+  const { start, end, projectId = null, taskId = null, description } = input;
+  const duration = secondsBetween(start, end);
+
+  if (duration > MAX_MANUAL_ENTRY_SECONDS) {
+    throw new ValidationError("Manual entries can't be longer than 24 hours");
+  }
+  if (projectId !== null) {
+    await assertProjectAccess(projectId, profileId, prisma);
+  }
+  if (projectId !== null && taskId !== null) {
+    await assertProjectTask(taskId, projectId, prisma);
+  }
+
+  return {
+    app: MANUAL_ENTRY_APP,
+    title: description,
+    description,
+    timestamp: start,
+    duration,
+    rawDuration: duration,
+    projectId,
+    taskId,
+  };
+}
+
 /**
  * Get activity statistics for a user
  */
@@ -236,8 +758,8 @@ export async function getActivityStats(
 export async function getTopApps(
   profileId: string,
   query: {
-    startDate?: string;
-    endDate?: string;
+    startDate?: Date;
+    endDate?: Date;
   },
   prisma: PrismaClient
 ): Promise<{
@@ -301,8 +823,8 @@ export async function getTopApps(
 export async function getTopActivities(
   profileId: string,
   query: {
-    startDate?: string;
-    endDate?: string;
+    startDate?: Date;
+    endDate?: Date;
   },
   prisma: PrismaClient
 ): Promise<TopActivityResponse[]> {
@@ -352,6 +874,26 @@ export async function selectActivities(
   });
 }
 
+/**
+ * Mark activities billable or not, or back to their project's default
+ */
+export async function setActivitiesBillable(
+  activityIds: string[],
+  profileId: string,
+  prisma: PrismaClient,
+  billable: boolean | null
+): Promise<void> {
+  await prisma.activity.updateMany({
+    where: {
+      id: { in: activityIds },
+      profileId,
+    },
+    data: {
+      billable,
+    },
+  });
+}
+
 /**
  * Group activities by entity (app + title) while preserving individual activity IDs and durations
  */
@@ -366,6 +908,10 @@ export function groupActivitiesByEntity(
   duration: number;
   projectId: number | null;
   projectName: string | null;
+  // Rule that assigned the project, until the user picks one
+  projectRuleId: number | null;
+  taskId: number | null;
+  source: ActivitySource;
 }> {
   const groupedData: Record<
     string,
@@ -378,6 +924,9 @@ export function groupActivitiesByEntity(
       duration: number;
       projectId: number | null;
       projectName: string | null;
+      projectRuleId: number | null;
+      taskId: number | null;
+      source: ActivitySource;
       tag: string;
     }
   > = {};
@@ -392,19 +941,23 @@ export function groupActivitiesByEntity(
       id = "",
       projectId = null,
       project,
+      projectRuleId = null,
+      taskId = null,
       autoTags = "",
+      source = "TRACKER",
     } = activity;
 
     if (!profileId || !app || !title || !id) {
       return;
     }
 
-    const key = `${profileId}|${app}|${title}|${selected}`;
+    const key = `${profileId}|${app}|${title}|${selected}|${source}`;
 
     if (groupedData[key]) {
       // Add to existing group
       groupedData[key].activityIds.push(id);
       groupedData[key].duration += duration || 0;
+      groupedData[key].projectRuleId ??= projectRuleId;
     } else {
       // Create new group
       groupedData[key] = {
@@ -416,6 +969,9 @@ export function groupActivitiesByEntity(
         duration: duration || 0,
         projectId,
         projectName: project?.name || "",
+        projectRuleId,
+        taskId,
+        source,
         tag: autoTags || "",
       };
     }
@@ -430,8 +986,8 @@ export function groupActivitiesByEntity(
 export async function activitiesForSelection(
   profileId: string,
   prisma: PrismaClient,
-  startDate: string,
-  endDate: string
+  startDate?: Date,
+  endDate?: Date
 ): Promise<
   Array<{
     profileId: string;
@@ -442,6 +998,9 @@ export async function activitiesForSelection(
     duration: number;
     projectId: number | null;
     projectName: string | null;
+    projectRuleId: number | null;
+    taskId: number | null;
+    source: ActivitySource;
   }>
 > {
   const activities = await prisma.activity.findMany({
@@ -467,18 +1026,21 @@ export async function addActivitiesToProject(
   activityIds: string[],
   projectId: number,
   profileId: string,
-  prisma: PrismaClient
+  prisma: PrismaClient,
+  taskId: number | null = null
 ): Promise<void> {
   // First verify that the project exists and the user has access to it
   const project = await prisma.project.findFirst({
     where: {
       id: projectId,
-      // workspaceId check is implicit via profile access to project? 
+      // workspaceId check is implicit via profile access to project?
       // Or we need to check if profile belongs to the workspace of the project.
       // But project is linked to workspace. Profile is linked to workspace.
       // We should check if project.workspaceId == profile.workspaceId.
       // However, prisma query here checks if project has users (ProjectUser) that match profileId.
       // But we are ADDING activities to project. We need to check if user has access to project.
+      archivedAt: null,
+      deletedAt: null,
       users: {
         some: {
           profileId,
@@ -491,6 +1053,9 @@ export async function addActivitiesToProject(
   if (!project) {
     throw new Error("Project not found or user does not have access to it");
   }
+  if (taskId !== null) {
+    await assertProjectTask(taskId, projectId, prisma);
+  }
 
   // Update all activities with the project ID
   await prisma.activity.updateMany({
@@ -498,25 +1063,34 @@ export async function addActivitiesToProject(
       id: { in: activityIds },
       profileId,
     },
+    // Picked by the user, so no longer the rule's suggestion
     data: {
       projectId,
+      taskId,
+      projectRuleId: null,
     },
   });
 }
 
 /**
- * Get user selected activities by user ID with optional date filtering
+ * Get user selected activities by user ID with optional date filtering.
+ * Views by another member are audited; with sharedProjectsOnly only
+ * activities on projects the viewer belongs to count.
  */
 export async function getUserSelectData(
   profileId: string,
+  workspaceId: string,
   query: {
-    startDate?: string;
-    endDate?: string;
+    startDate?: Date;
+    endDate?: Date;
   },
-  prisma: PrismaClient
+  prisma: PrismaClient,
+  viewer?: { userId: string; profileId: string; sharedProjectsOnly: boolean }
 ): Promise<{
   activities: Array<{
     duration: number;
+    // Part of duration logged as manual entries
+    manualDuration: number;
     date: string;
   }>;
   activitiesByTag: Array<{
@@ -526,16 +1100,62 @@ export async function getUserSelectData(
 }> {
   const { startDate, endDate } = query;
 
-  // Use raw SQL query to group by date(timestamp) and order by timestamp
+  const profile = await prisma.profile.findFirst({
+    where: { id: profileId, workspaceId },
+    select: {
+      id: true,
+      userId: true,
+      timezone: true,
+      workspace: { select: { timezone: true } },
+    },
+  });
+
+  if (!profile) {
+    throw new NotFoundError("User is not a member of this workspace");
+  }
+
+  if (viewer && viewer.profileId !== profileId) {
+    await recordAuditEvent(prisma, {
+      workspaceId,
+      actorId: viewer.userId,
+      action: "MEMBER_ACTIVITY_VIEWED",
+      targetId: profile.userId,
+      after: {
+        profileId,
+        startDate: startDate?.toISOString() || null,
+        endDate: endDate?.toISOString() || null,
+        sharedProjectsOnly: viewer.sharedProjectsOnly,
+      },
+    });
+  }
+
+  const viewerProjectIds = viewer?.sharedProjectsOnly
+    ? (
+        await prisma.projectUser.findMany({
+          where: { profileId: viewer.profileId, active: true },
+          select: { projectId: true },
+        })
+      ).map(({ projectId }) => projectId)
+    : undefined;
+
+  // Days are counted in the member's timezone
+  const timeZone = resolveTimeZone(
+    profile.timezone,
+    profile.workspace.timezone
+  );
+
+  // Use raw SQL query to group by local date and order by timestamp
   const activities = await prisma.$queryRaw<
     Array<{
       duration: number;
+      manualDuration: number;
       date: string;
     }>
   >`
     SELECT 
       SUM(duration)::int as duration,
-      DATE(timestamp) as date
+      DATE(timestamp AT TIME ZONE ${timeZone}) as "date",
+      COALESCE(SUM(duration) FILTER (WHERE source = 'MANUAL'), 0)::int as "manualDuration"
     FROM activities 
     WHERE 
       "profileId" = ${profileId}
@@ -543,8 +1163,15 @@ export async function getUserSelectData(
       AND app NOT IN (${Prisma.join(EXCLUDED_APPS)})
       ${startDate ? Prisma.sql`AND timestamp >= ${startDate}` : Prisma.empty}
       ${endDate ? Prisma.sql`AND timestamp <= ${endDate}` : Prisma.empty}
-    GROUP BY DATE(timestamp)
-    ORDER BY DATE(timestamp) DESC, SUM(duration) DESC
+      ${
+        viewerProjectIds
+          ? viewerProjectIds.length
+            ? Prisma.sql`AND "projectId" IN (${Prisma.join(viewerProjectIds)})`
+            : Prisma.sql`AND false`
+          : Prisma.empty
+      }
+    GROUP BY "date"
+    ORDER BY "date" DESC, SUM(duration) DESC
   `;
 
   const activitiesByTagResult = await prisma.activity.groupBy({
@@ -557,6 +1184,7 @@ export async function getUserSelectData(
         gte: startDate,
         lte: endDate,
       },
+      projectId: viewerProjectIds ? { in: viewerProjectIds } : undefined,
     },
     _sum: { duration: true },
     orderBy: { _sum: { duration: "desc" } },
@@ -569,3 +1197,186 @@ export async function getUserSelectData(
 
   return { activities, activitiesByTag };
 }
+
+/**
+ * Reconstruct a day in the profile's timezone as ordered blocks. Merged
+ * activities contribute their original segments, so the result is the same
+ * before and after the nightly merge.
+ */
+export async function getTimeline(
+  profileId: string,
+  query: TimelineQuery,
+  prisma: PrismaClient
+): Promise<TimelineBlock[]> {
+  const profile = await prisma.profile.findUniqueOrThrow({
+    where: { id: profileId },
+    select: { timezone: true, workspace: { select: { timezone: true } } },
+  });
+  const timeZone = resolveTimeZone(
+    profile.timezone,
+    profile.workspace.timezone
+  );
+  const range = getZonedDayRange(
+    query.date || getLocalDate(new Date(), timeZone),
+    timeZone
+  );
+  const entries = await getTimelineEntries(profileId, range, prisma);
+
+  return buildTimelineBlocks(entries, query.gapSeconds);
+}
+
+/**
+ * Get the events starting in [start, end). Merged activities contribute
+ * their original segments.
+ */
+export async function getTimelineEntries(
+  profileId: string,
+  range: { start: Date; end: Date },
+  prisma: PrismaClient,
+  options: { selectedOnly?: boolean } = {}
+): Promise<TimelineEntry[]> {
+  const { start, end } = range;
+  const selected = options.selectedOnly ? true : undefined;
+
+  const [segments, activities] = await Promise.all([
+    prisma.activitySegment.findMany({
+      where: {
+        start: { gte: start, lt: end },
+        activity: { profileId, selected, app: { notIn: EXCLUDED_APPS } },
+      },
+      include: { activity: true },
+    }),
+    prisma.activity.findMany({
+      where: {
+        profileId,
+        selected,
+        merged: false,
+        timestamp: { gte: start, lt: end },
+        app: { notIn: EXCLUDED_APPS },
+      },
+    }),
+  ]);
+
+  return [
+    ...segments.map(({ activity, ...segment }) => ({
+      activityId: activity.id,
+      app: activity.app,
+      title: activity.title,
+      url: segment.url,
+      start: segment.start,
+      duration: segment.duration,
+      tag: activity.autoTags || "",
+      projectId: activity.projectId,
+      source: activity.source,
+    })),
+    ...activities.map((activity) => ({
+      activityId: activity.id,
+      app: activity.app,
+      title: activity.title,
+      url: activity.url,
+      start: activity.timestamp,
+      duration: activity.duration || 0,
+      tag: activity.autoTags || "",
+      projectId: activity.projectId,
+      source: activity.source,
+    })),
+  ];
+}
+
+/**
+ * Coalesce events into non-overlapping blocks. Events of the same app and
+ * title at most gapSeconds apart share a block, longer gaps become idle
+ * blocks, and overlapping events are clipped to start where the previous
+ * block ends.
+ */
+export function buildTimelineBlocks(
+  entries: TimelineEntry[],
+  gapSeconds: number
+): TimelineBlock[] {
+  const blocks: TimelineBlock[] = [];
+  const sorted = [...entries].sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+
+  for (const entry of sorted) {
+    const previous = blocks[blocks.length - 1];
+    const entryEnd = new Date(entry.start.getTime() + entry.duration * 1000);
+
+    if (!previous) {
+      blocks.push(activeBlock(entry, entry.start, entryEnd));
+      continue;
+    }
+
+    // Fully covered by what came before
+    if (entryEnd <= previous.end) {
+      if (previous.app === entry.app && previous.title === entry.title) {
+        addActivityId(previous, entry.activityId);
+      }
+      continue;
+    }
+
+    const gap = (entry.start.getTime() - previous.end.getTime()) / 1000;
+
+    if (
+      gap <= gapSeconds &&
+      previous.app === entry.app &&
+      previous.title === entry.title
+    ) {
+      previous.end = entryEnd;
+      previous.duration = secondsBetween(previous.start, entryEnd);
+      previous.tag = previous.tag || entry.tag;
+      previous.projectId = previous.projectId ?? entry.projectId;
+      addActivityId(previous, entry.activityId);
+      continue;
+    }
+
+    if (gap > gapSeconds) {
+      blocks.push({
+        type: "idle",
+        start: previous.end,
+        end: entry.start,
+        duration: secondsBetween(previous.end, entry.start),
+        app: null,
+        title: null,
+        tag: null,
+        projectId: null,
+        source: null,
+        activityIds: [],
+      });
+    }
+
+    const start = entry.start < previous.end ? previous.end : entry.start;
+    blocks.push(activeBlock(entry, start, entryEnd));
+  }
+
+  return blocks;
+}
+
+function activeBlock(
+  entry: TimelineEntry,
+  start: Date,
+  end: Date
+): TimelineBlock {
+  return {
+    type: "active",
+    start,
+    end,
+    duration: secondsBetween(start, end),
+    app: entry.app,
+    title: entry.title,
+    tag: entry.tag,
+    projectId: entry.projectId,
+    source: entry.source,
+    activityIds: [entry.activityId],
+  };
+}
+
+function addActivityId(block: TimelineBlock, activityId: string): void {
+  if (!block.activityIds.includes(activityId)) {
+    block.activityIds.push(activityId);
+  }
+}
+
+export function secondsBetween(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / 1000);
+}
@@ -1,13 +1,29 @@
+import { ActivitySource } from "@prisma/client";
 import { z } from "zod";
 import {
+  AFK_EVENT_SCHEMA,
   CREATE_ACTIVITY_SCHEMA,
+  INGEST_EVENT_SCHEMA,
+  MANUAL_ENTRY_SCHEMA,
   UPDATE_ACTIVITY_SCHEMA,
   USER_SELECT_DATA_QUERY_SCHEMA,
+  TIMELINE_QUERY_SCHEMA,
 } from "./schema";
 
 export type CreateActivityInput = z.infer<typeof CREATE_ACTIVITY_SCHEMA>;
+export type AfkEventInput = z.infer<typeof AFK_EVENT_SCHEMA>;
+export type IngestEventInput = z.infer<typeof INGEST_EVENT_SCHEMA>;
+
+// Outcome of an ingestion batch. A type alias so it can be stored as JSON
+// for Idempotency-Key replays.
+export type IngestionResult = {
+  accepted: number;
+  deduplicated: number;
+};
+export type ManualEntryInput = z.infer<typeof MANUAL_ENTRY_SCHEMA>;
 export type UpdateActivityInput = z.infer<typeof UPDATE_ACTIVITY_SCHEMA>;
 export type UserSelectDataQuery = z.infer<typeof USER_SELECT_DATA_QUERY_SCHEMA>;
+export type TimelineQuery = z.infer<typeof TIMELINE_QUERY_SCHEMA>;
 
 // Activity interface (partial of Prisma Activity)
 export interface ActivityResponse {
@@ -17,8 +33,12 @@ export interface ActivityResponse {
   url: string;
   title: string;
   description: string | null;
-  timestamp: string;
+  timestamp: Date;
   duration: number | null;
+  rawDuration: number | null;
+  source: ActivitySource;
+  deviceId?: string | null;
+  device?: { id: string; name: string } | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -46,3 +66,31 @@ export interface UserSelectDataResponse {
     projectName: string | null;
   }>;
 }
+
+// A single tracked event on the day timeline
+export interface TimelineEntry {
+  activityId: string;
+  app: string;
+  title: string;
+  url: string;
+  start: Date;
+  duration: number;
+  tag: string;
+  projectId: number | null;
+  source: ActivitySource;
+}
+
+// A stretch of the day spent on one app and title, or an idle gap
+export interface TimelineBlock {
+  type: "active" | "idle";
+  start: Date;
+  end: Date;
+  // Seconds between start and end
+  duration: number;
+  app: string | null;
+  title: string | null;
+  tag: string | null;
+  projectId: number | null;
+  source: ActivitySource | null;
+  activityIds: string[];
+}
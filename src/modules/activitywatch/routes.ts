@@ -0,0 +1,181 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import {
+  AW_EVENT_SCHEMA,
+  AW_EVENTS_SCHEMA,
+  BUCKET_PARAM_SCHEMA,
+  CREATE_BUCKET_SCHEMA,
+  HEARTBEAT_QUERY_SCHEMA,
+} from "./schema";
+import {
+  createBucket,
+  deleteBucket,
+  getBucket,
+  getBuckets,
+  heartbeat,
+  insertEvents,
+} from "./service";
+
+// Version reported to watchers, the API mirrors ActivityWatch's
+const AW_API_VERSION = "v0.13.2";
+
+/**
+ * ActivityWatch-compatible API so its watchers can report here. Responses
+ * use ActivityWatch's format rather than our { data } envelope.
+ */
+const activityWatchRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Server info, polled by watchers before they start
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/info",
+    config: { permission: "public" },
+    handler: async (request, reply) => {
+      return reply.send({
+        hostname: "samay",
+        version: AW_API_VERSION,
+        testing: false,
+        device_id: "samay",
+      });
+    },
+  });
+
+  // Get all buckets of the current profile, or of the device for device
+  // keys, which watchers list on startup
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/buckets/",
+    config: {
+      permission: ["activity:read", "activity:write", "activity:ingest"],
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await getBuckets(prisma, profileId, request.device?.id);
+
+      return reply.send(result);
+    },
+  });
+
+  // Get bucket, device keys only get their own
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/buckets/:bucketId",
+    config: {
+      permission: ["activity:read", "activity:write", "activity:ingest"],
+    },
+    schema: {
+      params: BUCKET_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const { bucketId } = request.params;
+      const result = await getBucket(
+        prisma,
+        profileId,
+        bucketId,
+        request.device?.id
+      );
+
+      return reply.send(result);
+    },
+  });
+
+  // Create bucket, 304 if it already exists
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/buckets/:bucketId",
+    config: { permission: "activity:ingest" },
+    schema: {
+      params: BUCKET_PARAM_SCHEMA,
+      body: CREATE_BUCKET_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const { bucketId } = request.params;
+      const created = await createBucket(
+        prisma,
+        profileId,
+        bucketId,
+        request.body,
+        request.device?.id
+      );
+
+      return reply.status(created ? 200 : 304).send();
+    },
+  });
+
+  // Delete bucket
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "DELETE",
+    url: "/buckets/:bucketId",
+    config: { permission: "activity:write" },
+    schema: {
+      params: BUCKET_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const { bucketId } = request.params;
+      await deleteBucket(prisma, profileId, bucketId);
+
+      return reply.send();
+    },
+  });
+
+  // Insert events
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/buckets/:bucketId/events",
+    config: { permission: "activity:ingest" },
+    schema: {
+      params: BUCKET_PARAM_SCHEMA,
+      body: AW_EVENTS_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const { bucketId } = request.params;
+      const events = Array.isArray(request.body)
+        ? request.body
+        : [request.body];
+      await insertEvents(
+        prisma,
+        fastify.rateLimiter,
+        profileId,
+        bucketId,
+        events,
+        request.device?.id
+      );
+
+      return reply.send();
+    },
+  });
+
+  // Heartbeat, merged into the last event within pulsetime
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/buckets/:bucketId/heartbeat",
+    config: { permission: "activity:ingest" },
+    schema: {
+      params: BUCKET_PARAM_SCHEMA,
+      querystring: HEARTBEAT_QUERY_SCHEMA,
+      body: AW_EVENT_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const { bucketId } = request.params;
+      const result = await heartbeat(
+        prisma,
+        fastify.rateLimiter,
+        profileId,
+        bucketId,
+        request.body,
+        request.query.pulsetime,
+        request.device?.id
+      );
+
+      return reply.send(result);
+    },
+  });
+};
+
+export default activityWatchRoutes;
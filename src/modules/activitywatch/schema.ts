@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { TIMESTAMP_SCHEMA } from "../activities/schema";
+
+export const BUCKET_PARAM_SCHEMA = z.object({
+  bucketId: z.string().min(1, "Bucket ID is required").max(255),
+});
+
+export const CREATE_BUCKET_SCHEMA = z.object({
+  client: z.string().min(1).max(255),
+  type: z.string().min(1).max(255),
+  hostname: z.string().min(1).max(255),
+  name: z.string().max(255).optional(),
+});
+
+export const AW_EVENT_SCHEMA = z.object({
+  timestamp: TIMESTAMP_SCHEMA,
+  duration: z.number().min(0).default(0),
+  data: z.record(z.string(), z.unknown()),
+});
+
+export const AW_EVENTS_SCHEMA = z.union([
+  AW_EVENT_SCHEMA,
+  z.array(AW_EVENT_SCHEMA),
+]);
+
+export const HEARTBEAT_QUERY_SCHEMA = z.object({
+  // Seconds between two heartbeats with the same data that still merge
+  pulsetime: z.coerce.number().min(0).default(0),
+});
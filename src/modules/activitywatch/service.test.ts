@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from "vitest";
+import { PrismaClient } from "@prisma/client";
+import { getBucket, heartbeat } from "./service";
+import { RateLimiter } from "../../plugins/rate-limit/limiter";
+
+vi.mock("../activities/service", () => ({
+  createActivity: vi.fn(),
+  extendActivity: vi.fn().mockResolvedValue(true),
+}));
+
+const START = new Date("2026-10-19T09:00:00.000Z");
+
+function bucket(heartbeatVersion: number, lastHeartbeat: unknown) {
+  return {
+    id: "bucket-1",
+    profileId: "profile-1",
+    deviceId: null,
+    bucketId: "aw-watcher-window_laptop",
+    type: "currentwindow",
+    name: null,
+    client: "aw-watcher-window",
+    hostname: "laptop",
+    createdAt: START,
+    updatedAt: START,
+    lastHeartbeat,
+    heartbeatVersion,
+  };
+}
+
+describe("heartbeat", () => {
+  it("merges again when another heartbeat was stored first", async () => {
+    const stored = {
+      timestamp: START.toISOString(),
+      duration: 10,
+      data: { app: "Code", title: "service.ts" },
+    };
+    const prisma = {
+      bucket: {
+        findUnique: vi
+          .fn()
+          .mockResolvedValueOnce(bucket(0, null))
+          .mockResolvedValueOnce(bucket(1, stored)),
+        updateMany: vi
+          .fn()
+          .mockResolvedValueOnce({ count: 0 })
+          .mockResolvedValueOnce({ count: 1 }),
+      },
+    };
+
+    const event = await heartbeat(
+      prisma as unknown as PrismaClient,
+      {} as RateLimiter,
+      "profile-1",
+      "aw-watcher-window_laptop",
+      {
+        timestamp: new Date(START.getTime() + 15_000),
+        duration: 0,
+        data: { app: "Code", title: "service.ts" },
+      },
+      30
+    );
+
+    expect(event).toEqual({ ...stored, duration: 15 });
+    expect(prisma.bucket.updateMany).toHaveBeenLastCalledWith({
+      where: { id: "bucket-1", heartbeatVersion: 1 },
+      data: { lastHeartbeat: event, heartbeatVersion: { increment: 1 } },
+    });
+  });
+});
+
+describe("getBucket", () => {
+  it("hides buckets of other devices from a device key", async () => {
+    const prisma = {
+      bucket: {
+        findUnique: vi
+          .fn()
+          .mockResolvedValue({ ...bucket(0, null), deviceId: "device-1" }),
+      },
+    };
+
+    await expect(
+      getBucket(
+        prisma as unknown as PrismaClient,
+        "profile-1",
+        "aw-watcher-window_laptop",
+        "device-2"
+      )
+    ).rejects.toMatchObject({ statusCode: 404 });
+    await expect(
+      getBucket(
+        prisma as unknown as PrismaClient,
+        "profile-1",
+        "aw-watcher-window_laptop",
+        "device-1"
+      )
+    ).resolves.toMatchObject({ id: "aw-watcher-window_laptop" });
+  });
+});
@@ -0,0 +1,298 @@
+import { Bucket, Prisma, PrismaClient } from "@prisma/client";
+import { createHash } from "crypto";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../../plugins/error/plugin";
+import { RateLimiter } from "../../plugins/rate-limit/limiter";
+import { createActivity, extendActivity } from "../activities/service";
+import { IngestEventInput, IngestionResult } from "../activities/types";
+import {
+  AwBucketResponse,
+  AwEvent,
+  AwEventInput,
+  CreateBucketInput,
+} from "./types";
+
+const AFK_BUCKET_TYPE = "afkstatus";
+const WEB_BUCKET_TYPE_PREFIX = "web.";
+
+/**
+ * Get the profile's buckets keyed by bucket ID. A device only sees the
+ * buckets it created.
+ */
+export async function getBuckets(
+  prisma: PrismaClient,
+  profileId: string,
+  deviceId?: string
+): Promise<Record<string, AwBucketResponse>> {
+  const buckets = await prisma.bucket.findMany({
+    where: { profileId, ...(deviceId && { deviceId }) },
+  });
+
+  return Object.fromEntries(
+    buckets.map((bucket) => [bucket.bucketId, toBucketResponse(bucket)])
+  );
+}
+
+/**
+ * Get a bucket by its ID. A device only sees the buckets it created.
+ */
+export async function getBucket(
+  prisma: PrismaClient,
+  profileId: string,
+  bucketId: string,
+  deviceId?: string
+): Promise<AwBucketResponse> {
+  const bucket = await findBucket(prisma, profileId, bucketId);
+
+  if (deviceId && bucket.deviceId !== deviceId) {
+    throw new NotFoundError(`There's no bucket named ${bucketId}`);
+  }
+
+  return toBucketResponse(bucket);
+}
+
+/**
+ * Create a bucket. Returns false if it already exists, watchers create
+ * their bucket on every start.
+ */
+export async function createBucket(
+  prisma: PrismaClient,
+  profileId: string,
+  bucketId: string,
+  input: CreateBucketInput,
+  deviceId?: string
+): Promise<boolean> {
+  const existing = await prisma.bucket.findUnique({
+    where: { profileId_bucketId: { profileId, bucketId } },
+  });
+  if (existing) return false;
+
+  await prisma.bucket.create({
+    data: { ...input, profileId, bucketId, deviceId },
+  });
+  return true;
+}
+
+/**
+ * Delete a bucket. Activities reported through it are kept.
+ */
+export async function deleteBucket(
+  prisma: PrismaClient,
+  profileId: string,
+  bucketId: string
+): Promise<void> {
+  const bucket = await findBucket(prisma, profileId, bucketId);
+  await prisma.bucket.delete({ where: { id: bucket.id } });
+}
+
+/**
+ * Insert events into a bucket, e.g. from aw-client's queue or sync
+ */
+export async function insertEvents(
+  prisma: PrismaClient,
+  rateLimiter: RateLimiter,
+  profileId: string,
+  bucketId: string,
+  events: AwEventInput[],
+  deviceId?: string
+): Promise<IngestionResult> {
+  const bucket = await findBucket(prisma, profileId, bucketId);
+
+  return createActivity(
+    events.map((event) => toIngestEvent(bucket, event)),
+    profileId,
+    prisma,
+    rateLimiter,
+    bucket.deviceId || deviceId
+  );
+}
+
+/**
+ * Record a heartbeat with ActivityWatch's semantics: when the data equals
+ * the last heartbeat's and it arrives within pulsetime of its end, the last
+ * event is extended, otherwise a new event starts. Returns the resulting
+ * event.
+ */
+export async function heartbeat(
+  prisma: PrismaClient,
+  rateLimiter: RateLimiter,
+  profileId: string,
+  bucketId: string,
+  input: AwEventInput,
+  pulsetime: number,
+  deviceId?: string
+): Promise<AwEvent> {
+  const { bucket, last, event } = await claimHeartbeat(
+    prisma,
+    profileId,
+    bucketId,
+    input,
+    pulsetime
+  );
+
+  const ingestEvent = toIngestEvent(bucket, {
+    timestamp: new Date(event.timestamp),
+    duration: event.duration,
+    data: event.data,
+  });
+
+  // AFK periods are upserted by start, so extending one is a plain insert
+  const extended =
+    event.timestamp === last?.timestamp &&
+    "eventId" in ingestEvent &&
+    (await extendActivity(
+      profileId,
+      ingestEvent.eventId || "",
+      ingestEvent.duration,
+      prisma
+    ));
+
+  if (!extended) {
+    await createActivity(
+      [ingestEvent],
+      profileId,
+      prisma,
+      rateLimiter,
+      bucket.deviceId || deviceId
+    );
+  }
+
+  return event;
+}
+
+// Attempts at storing a heartbeat while others for the bucket race it
+const HEARTBEAT_ATTEMPTS = 5;
+
+/**
+ * Merge a heartbeat into the bucket's last one and store the result. The
+ * update only applies if no other heartbeat was stored since the bucket
+ * was read, otherwise the merge is redone on the fresh state.
+ */
+async function claimHeartbeat(
+  prisma: PrismaClient,
+  profileId: string,
+  bucketId: string,
+  input: AwEventInput,
+  pulsetime: number
+): Promise<{ bucket: Bucket; last: AwEvent | null; event: AwEvent }> {
+  for (let attempt = 0; attempt < HEARTBEAT_ATTEMPTS; attempt++) {
+    const bucket = await findBucket(prisma, profileId, bucketId);
+    const last = bucket.lastHeartbeat as AwEvent | null;
+    const event = mergeHeartbeat(last, input, pulsetime);
+
+    const { count } = await prisma.bucket.updateMany({
+      where: { id: bucket.id, heartbeatVersion: bucket.heartbeatVersion },
+      data: {
+        lastHeartbeat: event as Prisma.InputJsonObject,
+        heartbeatVersion: { increment: 1 },
+      },
+    });
+
+    if (count > 0) {
+      return { bucket, last, event };
+    }
+  }
+
+  throw new ConflictError("Too many concurrent heartbeats for this bucket");
+}
+
+function mergeHeartbeat(
+  last: AwEvent | null,
+  input: AwEventInput,
+  pulsetime: number
+): AwEvent {
+  if (last && sameData(last.data, input.data)) {
+    const lastStart = new Date(last.timestamp).getTime();
+    const lastEnd = lastStart + last.duration * 1000;
+    const start = input.timestamp.getTime();
+
+    if (start >= lastStart && start <= lastEnd + pulsetime * 1000) {
+      const end = Math.max(lastEnd, start + input.duration * 1000);
+      return { ...last, duration: (end - lastStart) / 1000 };
+    }
+  }
+
+  return {
+    timestamp: input.timestamp.toISOString(),
+    duration: input.duration,
+    data: input.data,
+  };
+}
+
+async function findBucket(
+  prisma: PrismaClient,
+  profileId: string,
+  bucketId: string
+): Promise<Bucket> {
+  const bucket = await prisma.bucket.findUnique({
+    where: { profileId_bucketId: { profileId, bucketId } },
+  });
+
+  if (!bucket) {
+    throw new NotFoundError(`There's no bucket named ${bucketId}`);
+  }
+
+  return bucket;
+}
+
+/**
+ * Map an ActivityWatch event to our ingestion format. Events get an ID
+ * from their bucket and start, so a heartbeat extending an event and
+ * re-sent events map to the same activity.
+ */
+function toIngestEvent(bucket: Bucket, event: AwEventInput): IngestEventInput {
+  const { timestamp, data } = event;
+  const duration = Math.round(event.duration);
+
+  if (bucket.type === AFK_BUCKET_TYPE) {
+    if (data.status !== "afk" && data.status !== "not-afk") {
+      throw new ValidationError("AFK events need a status of afk or not-afk");
+    }
+    return { data: { status: data.status }, timestamp, duration };
+  }
+
+  const isWeb = bucket.type.startsWith(WEB_BUCKET_TYPE_PREFIX);
+
+  return {
+    eventId: createHash("sha256")
+      .update([bucket.id, timestamp.toISOString()].join("\n"))
+      .digest("hex"),
+    data: {
+      app: stringValue(data.app) || (isWeb ? "Browser" : ""),
+      url: stringValue(data.url),
+      title: stringValue(data.title),
+    },
+    timestamp,
+    duration,
+  };
+}
+
+function stringValue(value: unknown): string {
+  return typeof value === "string" ? value : "";
+}
+
+function sameData(
+  a: Record<string, unknown>,
+  b: Record<string, unknown>
+): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => JSON.stringify(a[key]) === JSON.stringify(b[key]))
+  );
+}
+
+function toBucketResponse(bucket: Bucket): AwBucketResponse {
+  return {
+    id: bucket.bucketId,
+    name: bucket.name,
+    type: bucket.type,
+    client: bucket.client,
+    hostname: bucket.hostname,
+    created: bucket.createdAt.toISOString(),
+    last_updated: bucket.updatedAt.toISOString(),
+  };
+}
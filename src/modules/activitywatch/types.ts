@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { AW_EVENT_SCHEMA, CREATE_BUCKET_SCHEMA } from "./schema";
+
+export type CreateBucketInput = z.infer<typeof CREATE_BUCKET_SCHEMA>;
+export type AwEventInput = z.infer<typeof AW_EVENT_SCHEMA>;
+
+// Bucket in ActivityWatch's wire format
+export interface AwBucketResponse {
+  id: string;
+  name: string | null;
+  type: string;
+  client: string;
+  hostname: string;
+  created: string;
+  last_updated: string;
+}
+
+// Event in ActivityWatch's wire format. A type alias so it can be stored
+// as the bucket's last heartbeat.
+export type AwEvent = {
+  timestamp: string;
+  duration: number;
+  data: { [key: string]: unknown };
+};
@@ -0,0 +1,50 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import { AUDIT_FILTER_SCHEMA, AUDIT_QUERY_SCHEMA } from "./schema";
+import { WORKSPACE_ID_PARAM_SCHEMA } from "../workspaces/schema";
+import { exportAuditEventsCsv, getAuditEvents } from "./service";
+
+const auditRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Get audit events of a workspace
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:id/audit",
+    config: { permission: "audit:read", workspaceParam: "id" },
+    schema: {
+      params: WORKSPACE_ID_PARAM_SCHEMA,
+      querystring: AUDIT_QUERY_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { id } = request.params;
+      const result = await getAuditEvents(prisma, id, request.query);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Export audit events as CSV
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:id/audit/export",
+    config: { permission: "audit:read", workspaceParam: "id" },
+    schema: {
+      params: WORKSPACE_ID_PARAM_SCHEMA,
+      querystring: AUDIT_FILTER_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { id } = request.params;
+      const csv = await exportAuditEventsCsv(prisma, id, request.query);
+
+      return reply
+        .header("Content-Type", "text/csv; charset=utf-8")
+        .header("Content-Disposition", `attachment; filename="audit-${id}.csv"`)
+        .send(csv);
+    },
+  });
+};
+
+export default auditRoutes;
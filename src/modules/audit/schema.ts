@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { AuditAction } from "@prisma/client";
+
+export const AUDIT_FILTER_SCHEMA = z.object({
+  action: z.enum(AuditAction).optional(),
+  actorId: z.string().min(1).optional(),
+  targetId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const AUDIT_QUERY_SCHEMA = AUDIT_FILTER_SCHEMA.extend({
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(50),
+});
@@ -0,0 +1,148 @@
+import { AuditEvent, Prisma, PrismaClient } from "@prisma/client";
+import {
+  AuditEventInput,
+  AuditEventResponse,
+  AuditEventsResponse,
+  AuditFilter,
+  AuditQuery,
+} from "./types";
+import { toCsvField } from "../../plugins/csv/format";
+
+const EXPORT_BATCH_SIZE = 1000;
+
+const CSV_COLUMNS = [
+  "createdAt",
+  "action",
+  "actorId",
+  "actorEmail",
+  "targetId",
+  "targetEmail",
+  "before",
+  "after",
+];
+
+/**
+ * Append an event to the workspace audit log
+ */
+export async function recordAuditEvent(
+  prisma: Prisma.TransactionClient,
+  event: AuditEventInput
+): Promise<void> {
+  await prisma.auditEvent.create({ data: event });
+}
+
+/**
+ * Get audit events of a workspace, newest first
+ */
+export async function getAuditEvents(
+  prisma: PrismaClient,
+  workspaceId: string,
+  query: AuditQuery
+): Promise<AuditEventsResponse> {
+  const { page, limit, ...filter } = query;
+  const where = buildWhere(workspaceId, filter);
+
+  const [events, total] = await Promise.all([
+    prisma.auditEvent.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.auditEvent.count({ where }),
+  ]);
+
+  return { events: await withUsers(prisma, events), total };
+}
+
+/**
+ * Export matching audit events as CSV
+ */
+export async function exportAuditEventsCsv(
+  prisma: PrismaClient,
+  workspaceId: string,
+  filter: AuditFilter
+): Promise<string> {
+  const where = buildWhere(workspaceId, filter);
+  const lines = [CSV_COLUMNS.join(",")];
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.auditEvent.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    for (const event of await withUsers(prisma, batch)) {
+      lines.push(
+        [
+          event.createdAt.toISOString(),
+          event.action,
+          event.actorId,
+          event.actor?.email,
+          event.targetId,
+          event.target?.email,
+          event.before === null ? "" : JSON.stringify(event.before),
+          event.after === null ? "" : JSON.stringify(event.after),
+        ]
+          .map(toCsvField)
+          .join(",")
+      );
+    }
+
+    if (batch.length < EXPORT_BATCH_SIZE) break;
+    cursor = batch[batch.length - 1].id;
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+function buildWhere(
+  workspaceId: string,
+  filter: AuditFilter
+): Prisma.AuditEventWhereInput {
+  const { action, actorId, targetId, from, to } = filter;
+
+  return {
+    workspaceId,
+    action,
+    actorId,
+    targetId,
+    createdAt: { gte: from, lte: to },
+  };
+}
+
+/**
+ * Resolve actor and target users. Events keep plain ids, so users
+ * deleted since show up as null.
+ */
+async function withUsers(
+  prisma: PrismaClient,
+  events: AuditEvent[]
+): Promise<AuditEventResponse[]> {
+  const ids = new Set<string>();
+  for (const event of events) {
+    ids.add(event.actorId);
+    if (event.targetId) ids.add(event.targetId);
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: [...ids] } },
+    select: { id: true, email: true, name: true },
+  });
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  return events.map((event) => ({
+    id: event.id,
+    action: event.action,
+    actorId: event.actorId,
+    actor: usersById.get(event.actorId) || null,
+    targetId: event.targetId,
+    target: (event.targetId && usersById.get(event.targetId)) || null,
+    before: event.before,
+    after: event.after,
+    createdAt: event.createdAt,
+  }));
+}
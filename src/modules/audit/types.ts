@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { AuditAction, Prisma } from "@prisma/client";
+import { AUDIT_FILTER_SCHEMA, AUDIT_QUERY_SCHEMA } from "./schema";
+
+export type AuditFilter = z.infer<typeof AUDIT_FILTER_SCHEMA>;
+export type AuditQuery = z.infer<typeof AUDIT_QUERY_SCHEMA>;
+
+export interface AuditEventInput {
+  workspaceId: string;
+  actorId: string;
+  action: AuditAction;
+  targetId?: string | null;
+  before?: Prisma.InputJsonValue;
+  after?: Prisma.InputJsonValue;
+}
+
+interface AuditUser {
+  id: string;
+  email: string;
+  name: string | null;
+}
+
+export interface AuditEventResponse {
+  id: string;
+  action: AuditAction;
+  actorId: string;
+  actor: AuditUser | null;
+  targetId: string | null;
+  target: AuditUser | null;
+  before: Prisma.JsonValue;
+  after: Prisma.JsonValue;
+  createdAt: Date;
+}
+
+export interface AuditEventsResponse {
+  events: AuditEventResponse[];
+  total: number;
+}
@@ -5,12 +5,32 @@ import {
   GET_USER_BY_ID_SCHEMA,
   SWITCH_WORKSPACE_SCHEMA,
   MAKE_PROFILE_DEFAULT_SCHEMA,
+  REFRESH_TOKEN_SCHEMA,
+  LOGOUT_SCHEMA,
+  FORGOT_PASSWORD_SCHEMA,
+  RESET_PASSWORD_SCHEMA,
+  VERIFY_EMAIL_SCHEMA,
+  VERIFY_TWO_FACTOR_SCHEMA,
+  TWO_FACTOR_CODE_SCHEMA,
+  DISABLE_TWO_FACTOR_SCHEMA,
+  UPDATE_PROFILE_SCHEMA,
 } from "./schema";
 import {
   register,
   login,
-  // logout,
+  logout,
+  refreshSession,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  verifyTwoFactorLogin,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
   getCurrentUser,
+  updateCurrentUser,
   getAllUsers,
   getUserById,
   switchWorkspace,
@@ -25,12 +45,13 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/register",
+    config: { permission: "public" },
     schema: {
       body: REGISTER_SCHEMA,
     },
     handler: async (request, reply) => {
       const input = request.body;
-      const result = await register(input, prisma);
+      const result = await register(input, prisma, fastify.mailer);
 
       return reply.status(201).send({
         data: result,
@@ -41,12 +62,18 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/login",
+    config: { permission: "public" },
     schema: {
       body: LOGIN_SCHEMA,
     },
     handler: async (request, reply) => {
       const input = request.body;
-      const result = await login(input, prisma);
+      const result = await login(
+        input,
+        prisma,
+        fastify.rateLimiter,
+        request.ip
+      );
 
       return reply.send({
         data: result,
@@ -54,16 +81,216 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
     },
   });
 
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/2fa/verify",
+    config: { permission: "public" },
+    schema: {
+      body: VERIFY_TWO_FACTOR_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const input = request.body;
+      const result = await verifyTwoFactorLogin(
+        input,
+        prisma,
+        fastify.rateLimiter
+      );
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/2fa/setup",
+    config: { permission: "authenticated", allowPendingTwoFactor: true },
+    handler: async (request, reply) => {
+      const { userId = "" } = request.user || {};
+      const result = await setupTwoFactor(userId, prisma);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/2fa/enable",
+    config: { permission: "authenticated", allowPendingTwoFactor: true },
+    schema: {
+      body: TWO_FACTOR_CODE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { userId = "", profileId = "" } = request.user || {};
+      const input = request.body;
+      const result = await enableTwoFactor(userId, profileId, input, prisma);
+
+      return reply.send({
+        data: result,
+        message: "Two-factor authentication enabled successfully",
+      });
+    },
+  });
+
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/2fa/disable",
+    config: { permission: "authenticated" },
+    schema: {
+      body: DISABLE_TWO_FACTOR_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { userId = "" } = request.user || {};
+      const input = request.body;
+      await disableTwoFactor(userId, input, prisma);
+
+      return reply.send({
+        message: "Two-factor authentication disabled successfully",
+      });
+    },
+  });
+
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/2fa/recovery-codes",
+    config: { permission: "authenticated" },
+    schema: {
+      body: TWO_FACTOR_CODE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { userId = "" } = request.user || {};
+      const input = request.body;
+      const recoveryCodes = await regenerateRecoveryCodes(
+        userId,
+        input,
+        prisma
+      );
+
+      return reply.send({
+        data: { recoveryCodes },
+      });
+    },
+  });
+
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/refresh",
+    config: { permission: "public" },
+    schema: {
+      body: REFRESH_TOKEN_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const input = request.body;
+      const result = await refreshSession(input, prisma);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/logout",
+    config: { permission: "public" },
+    schema: {
+      body: LOGOUT_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const input = request.body;
+      await logout(input, prisma);
+
+      return reply.send({
+        message: "Logged out successfully",
+      });
+    },
+  });
+
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/forgot-password",
+    config: { permission: "public" },
+    schema: {
+      body: FORGOT_PASSWORD_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const input = request.body;
+      await forgotPassword(
+        input,
+        prisma,
+        fastify.mailer,
+        fastify.rateLimiter,
+        request.ip
+      );
+
+      return reply.send({
+        message: "If the email is registered, a reset link has been sent",
+      });
+    },
+  });
+
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/reset-password",
+    config: { permission: "public" },
+    schema: {
+      body: RESET_PASSWORD_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const input = request.body;
+      await resetPassword(input, prisma);
+
+      return reply.send({
+        message: "Password reset successfully",
+      });
+    },
+  });
+
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/verify-email",
+    config: { permission: "public" },
+    schema: {
+      body: VERIFY_EMAIL_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const input = request.body;
+      await verifyEmail(input, prisma);
+
+      return reply.send({
+        message: "Email verified successfully",
+      });
+    },
+  });
+
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/resend-verification",
+    config: { permission: "authenticated" },
+    handler: async (request, reply) => {
+      const { userId = "" } = request.user || {};
+      await resendVerificationEmail(userId, prisma, fastify.mailer);
+
+      return reply.send({
+        message: "Verification email sent",
+      });
+    },
+  });
+
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/switch-workspace",
+    config: { permission: "authenticated", allowPendingTwoFactor: true },
     schema: {
       body: SWITCH_WORKSPACE_SCHEMA,
     },
     handler: async (request, reply) => {
-      const { userId = "" } = request.user || {};
+      const { userId = "", mfa = false } = request.user || {};
       const input = request.body;
-      const result = await switchWorkspace(userId, input, prisma);
+      const result = await switchWorkspace(userId, input, prisma, mfa);
 
       return reply.send({
         data: result,
@@ -74,6 +301,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/me",
+    config: { permission: "authenticated", allowPendingTwoFactor: true },
     handler: async (request, reply) => {
       const { profileId = "" } = request.user || {};
       const user = await getCurrentUser(profileId, prisma);
@@ -83,9 +311,27 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
     },
   });
 
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "PATCH",
+    url: "/me",
+    config: { permission: "authenticated" },
+    schema: {
+      body: UPDATE_PROFILE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const user = await updateCurrentUser(profileId, request.body, prisma);
+      return reply.send({
+        data: user,
+        message: "Profile updated successfully",
+      });
+    },
+  });
+
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/users",
+    config: { permission: "member:read" },
     handler: async (request, reply) => {
       const { workspaceId = "" } = request.user || {};
       const users = await getAllUsers(workspaceId, prisma);
@@ -98,6 +344,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/users/:id",
+    config: { permission: "member:read" },
     schema: {
       params: GET_USER_BY_ID_SCHEMA,
     },
@@ -114,6 +361,7 @@ const authRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/make-profile-default",
+    config: { permission: "authenticated" },
     schema: {
       body: MAKE_PROFILE_DEFAULT_SCHEMA,
     },
@@ -1,15 +1,18 @@
 import { z } from "zod/v4";
+import { isValidTimeZone } from "../../plugins/time/timezone";
+
+const PASSWORD_SCHEMA = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .regex(
+    /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)[A-Za-z\d@$!%*?&]/,
+    "Password must contain at least one uppercase letter, one lowercase letter, one number"
+  );
 
 // Validation schemas
 export const REGISTER_SCHEMA = z.object({
   email: z.email("Invalid email format"),
-  password: z
-    .string()
-    .min(8, "Password must be at least 8 characters")
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)[A-Za-z\d@$!%*?&]/,
-      "Password must contain at least one uppercase letter, one lowercase letter, one number"
-    ),
+  password: PASSWORD_SCHEMA,
   name: z.string().min(1, "Name is required"),
 });
 
@@ -29,3 +32,59 @@ export const GET_USER_BY_ID_SCHEMA = z.object({
 export const MAKE_PROFILE_DEFAULT_SCHEMA = z.object({
   workspaceId: z.string().min(1, "Workspace ID is required"),
 });
+
+export const REFRESH_TOKEN_SCHEMA = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const LOGOUT_SCHEMA = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const FORGOT_PASSWORD_SCHEMA = z.object({
+  email: z.email("Invalid email format"),
+});
+
+export const RESET_PASSWORD_SCHEMA = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: PASSWORD_SCHEMA,
+});
+
+export const VERIFY_EMAIL_SCHEMA = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+
+export const VERIFY_TWO_FACTOR_SCHEMA = z
+  .object({
+    challengeToken: z.string().min(1, "Challenge token is required"),
+    code: z.string().length(6, "Code must be 6 digits").optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine((input) => input.code || input.recoveryCode, {
+    message: "Either code or recoveryCode is required",
+  });
+
+export const TWO_FACTOR_CODE_SCHEMA = z.object({
+  code: z.string().length(6, "Code must be 6 digits"),
+});
+
+export const DISABLE_TWO_FACTOR_SCHEMA = z
+  .object({
+    code: z.string().length(6, "Code must be 6 digits").optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine((input) => input.code || input.recoveryCode, {
+    message: "Either code or recoveryCode is required",
+  });
+
+export const TIMEZONE_SCHEMA = z
+  .string()
+  .refine(isValidTimeZone, "Must be an IANA timezone, e.g. Europe/Berlin");
+
+export const UPDATE_PROFILE_SCHEMA = z.object({
+  name: z.string().min(1, "Name is required").max(100).optional(),
+  // null follows the workspace timezone
+  timezone: TIMEZONE_SCHEMA.nullable().optional(),
+  // AFK periods shorter than this still count as active time
+  idleThresholdSeconds: z.number().int().min(60).max(3600).optional(),
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from "vitest";
+import { createHmac } from "crypto";
+import { PrismaClient } from "@prisma/client";
+import {
+  disableTwoFactor,
+  forgotPassword,
+  regenerateRecoveryCodes,
+} from "./service";
+import { RateLimiter } from "../../plugins/rate-limit/limiter";
+import { generateTotpSecret } from "./totp";
+
+const SECRET = generateTotpSecret();
+
+function base32Decode(input: string): Buffer {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+  let bits = "";
+  for (const char of input) {
+    bits += alphabet.indexOf(char).toString(2).padStart(5, "0");
+  }
+  const bytes = bits.match(/.{8}/g) || [];
+  return Buffer.from(bytes.map((byte) => parseInt(byte, 2)));
+}
+
+// RFC 6238 code for the current 30 second step
+function currentCode() {
+  const step = Math.floor(Date.now() / 1000 / 30);
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(SECRET)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000;
+  return { step, code: code.toString().padStart(6, "0") };
+}
+
+function createPrisma(user: Record<string, unknown>) {
+  return {
+    user: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: "user-1",
+        email: "jane@acme.com",
+        totpSecret: SECRET,
+        totpEnabledAt: new Date(),
+        totpLastStep: null,
+        ...user,
+      }),
+      update: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    },
+    profile: { findFirst: vi.fn().mockResolvedValue(null) },
+    recoveryCode: {
+      deleteMany: vi.fn(),
+      createMany: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    refreshToken: { updateMany: vi.fn() },
+    $transaction: vi.fn(),
+  };
+}
+
+describe("TOTP codes", () => {
+  it("records the step of an accepted code", async () => {
+    const { step, code } = currentCode();
+    const prisma = createPrisma({});
+
+    await regenerateRecoveryCodes(
+      "user-1",
+      { code },
+      prisma as unknown as PrismaClient
+    );
+
+    expect(prisma.user.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { totpLastStep: step } })
+    );
+  });
+
+  it("rejects a code whose step was already used", async () => {
+    const { step, code } = currentCode();
+    const prisma = createPrisma({ totpLastStep: step });
+
+    await expect(
+      regenerateRecoveryCodes(
+        "user-1",
+        { code },
+        prisma as unknown as PrismaClient
+      )
+    ).rejects.toMatchObject({ code: "INVALID_TWO_FACTOR_CODE" });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe("disableTwoFactor", () => {
+  it("signs out every session of the user", async () => {
+    const prisma = createPrisma({});
+
+    await disableTwoFactor(
+      "user-1",
+      { code: currentCode().code },
+      prisma as unknown as PrismaClient
+    );
+
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", revokedAt: null },
+      data: { revokedAt: expect.any(Date) },
+    });
+    expect(prisma.$transaction).toHaveBeenCalled();
+  });
+
+  it("is refused while a workspace requires 2FA for the user", async () => {
+    const prisma = createPrisma({});
+    prisma.profile.findFirst.mockResolvedValue({
+      workspace: { name: "Acme" },
+    });
+
+    await expect(
+      disableTwoFactor(
+        "user-1",
+        { code: currentCode().code },
+        prisma as unknown as PrismaClient
+      )
+    ).rejects.toMatchObject({ code: "TWO_FACTOR_REQUIRED" });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe("forgotPassword", () => {
+  it("doesn't reveal a registered email when the mail fails", async () => {
+    const prisma = {
+      ...createPrisma({}),
+      userToken: { updateMany: vi.fn(), create: vi.fn() },
+    };
+    const mailer = { send: vi.fn().mockRejectedValue(new Error("down")) };
+    const rateLimiter = { consume: vi.fn() };
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(
+      forgotPassword(
+        { email: "jane@acme.com" },
+        prisma as unknown as PrismaClient,
+        mailer,
+        rateLimiter as unknown as RateLimiter,
+        "127.0.0.1"
+      )
+    ).resolves.toBeUndefined();
+    expect(mailer.send).toHaveBeenCalled();
+  });
+});
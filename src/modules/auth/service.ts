@@ -1,26 +1,87 @@
-import { PrismaClient, User, Role } from "@prisma/client";
+import { PrismaClient, User, UserTokenType } from "@prisma/client";
 import * as argon2 from "argon2";
 import { randomUUID } from "crypto";
-import jwt from "jsonwebtoken";
 import {
   AuthResponse,
   LoginInput,
   RegisterInput,
   UserResponse,
+  CurrentUserResponse,
+  UpdateProfileInput,
   SwitchWorkspaceInput,
   MakeProfileDefaultInput,
+  RefreshTokenInput,
+  LogoutInput,
+  SessionTokens,
+  ForgotPasswordInput,
+  ResetPasswordInput,
+  VerifyEmailInput,
+  LoginResponse,
+  VerifyTwoFactorInput,
+  TwoFactorCodeInput,
+  DisableTwoFactorInput,
+  TwoFactorSetupResponse,
+  TwoFactorEnabledResponse,
 } from "./types";
-import { AppError } from "../../plugins/error/plugin";
+import {
+  AppError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../../plugins/error/plugin";
+import {
+  REFRESH_TOKEN_TTL_DAYS,
+  generateOpaqueToken,
+  hashToken,
+  signAccessToken,
+  signChallengeToken,
+  verifyAccessToken,
+  verifyChallengeToken,
+} from "../../plugins/auth/tokens";
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  verifyTotp,
+} from "./totp";
+import { MailTransport } from "../../plugins/mail/transport";
+import {
+  LockoutPolicy,
+  RateLimitRule,
+  RateLimiter,
+} from "../../plugins/rate-limit/limiter";
+import {
+  emailVerificationMail,
+  passwordResetMail,
+} from "../../plugins/mail/templates";
+import { builtInRolesData, getBuiltInRole } from "../roles/service";
+import { resolveTimeZone } from "../../plugins/time/timezone";
+import { recomputeActiveDurations } from "../activities/service";
 
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-const JWT_EXPIRES_IN = "7d";
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const EMAIL_VERIFICATION_TTL_MINUTES = 24 * 60;
+const THRESHOLD_RECOMPUTE_DAYS = 7;
+
+const LOGIN_IP_LIMIT: RateLimitRule = { limit: 20, windowSeconds: 60 };
+const FORGOT_PASSWORD_IP_LIMIT: RateLimitRule = {
+  limit: 5,
+  windowSeconds: 900,
+};
+const LOGIN_LOCKOUT_POLICY: LockoutPolicy = {
+  maxAttempts: 5,
+  windowSeconds: 3600,
+  baseLockSeconds: 60,
+  maxLockSeconds: 3600,
+};
 
 /**
  * Register a new user
  */
 export async function register(
   input: RegisterInput,
-  prisma: PrismaClient
+  prisma: PrismaClient,
+  mailer: MailTransport
 ): Promise<AuthResponse> {
   const { email, password, name } = input;
 
@@ -54,20 +115,20 @@ export async function register(
       data: {
         name: `${name}'s Workspace`,
         ownerId: user.id,
-        profiles: {
-          create: {
-            userId: user.id,
-            name: name,
-            role: Role.ADMIN,
-            isDefault: true,
-          },
-        },
+        roles: { create: builtInRolesData() },
       },
     });
 
-    // Fetch the created profile
-    const profile = await tx.profile.findFirstOrThrow({
-      where: { workspaceId: workspace.id, userId: user.id },
+    const adminRole = await getBuiltInRole(tx, workspace.id, "ADMIN");
+    const profile = await tx.profile.create({
+      data: {
+        userId: user.id,
+        workspaceId: workspace.id,
+        name: name,
+        roleId: adminRole.id,
+        isDefault: true,
+      },
+      include: { role: true },
     });
 
     return { user, workspace, profile };
@@ -82,18 +143,18 @@ export async function register(
     createdAt: user.createdAt,
     profileId: profile.id,
     workspaceId: workspace.id,
-    role: profile.role,
+    role: profile.role.name,
+    roleId: profile.roleId,
     workspaceName: workspace.name,
   };
 
-  // Generate JWT token
-  const token = generateToken(userWithProfile);
+  await sendVerificationEmail(user, prisma, mailer);
 
-  // Session creation removed
+  const tokens = await createSession(userWithProfile, prisma);
 
   return {
     user: userWithProfile,
-    token,
+    ...tokens,
   };
 }
 
@@ -102,69 +163,458 @@ export async function register(
  */
 export async function login(
   input: LoginInput,
-  prisma: PrismaClient
-): Promise<AuthResponse> {
+  prisma: PrismaClient,
+  rateLimiter: RateLimiter,
+  ip: string
+): Promise<LoginResponse> {
   const { email, password } = input;
+  const accountKey = `login:account:${email.toLowerCase()}`;
+
+  await rateLimiter.consume(`login:ip:${ip}`, LOGIN_IP_LIMIT);
+  await rateLimiter.assertNotLocked(accountKey);
 
   // Find user
   const user = await prisma.user.findUnique({
     where: { email },
   });
 
-  if (!user) {
+  // Verify password (SSO-only users have none)
+  const isValidPassword = user?.password
+    ? await argon2.verify(user.password, password)
+    : false;
+
+  if (!user || !isValidPassword) {
+    await rateLimiter.registerFailure(accountKey, LOGIN_LOCKOUT_POLICY);
     throw new AppError("Invalid email or password", 401, "INVALID_CREDENTIALS");
   }
 
-  // Verify password
-  const isValidPassword = await argon2.verify(user.password, password);
+  await rateLimiter.reset(accountKey);
 
-  if (!isValidPassword) {
-    throw new AppError("Invalid email or password", 401, "INVALID_CREDENTIALS");
+  return completeLogin(user, prisma, false);
+}
+
+/**
+ * Finish a first-factor login: hand out a 2FA challenge when the user has
+ * TOTP enabled, otherwise start a session for the default profile
+ */
+export async function completeLogin(
+  user: User,
+  prisma: PrismaClient,
+  mfa: boolean
+): Promise<LoginResponse> {
+  // Second step required: hand out a challenge instead of a session
+  if (user.totpEnabledAt && !mfa) {
+    return {
+      twoFactorRequired: true,
+      challengeToken: signChallengeToken({ userId: user.id }),
+    };
   }
 
-  // Get user's profiles
-  const {
-    id: profileId,
-    workspaceId: workspaceId,
-    workspace: { name: workspaceName },
-    role,
-    name,
-  } = await prisma.profile.findFirstOrThrow({
-    where: { userId: user.id, isDefault: true },
+  return startDefaultProfileSession(user, prisma, mfa);
+}
+
+/**
+ * Complete a 2FA login with a TOTP code or a recovery code
+ */
+export async function verifyTwoFactorLogin(
+  input: VerifyTwoFactorInput,
+  prisma: PrismaClient,
+  rateLimiter: RateLimiter
+): Promise<AuthResponse> {
+  const { userId } = verifyChallengeToken(input.challengeToken);
+  const attemptKey = `2fa:${userId}`;
+
+  await rateLimiter.assertNotLocked(attemptKey);
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user || !user.totpEnabledAt || !user.totpSecret) {
+    throw new AuthenticationError("Two-factor authentication is not enabled");
+  }
+
+  const isValid = await verifySecondFactor(user, input, prisma);
+
+  if (!isValid) {
+    await rateLimiter.registerFailure(attemptKey, LOGIN_LOCKOUT_POLICY);
+    throw new AppError(
+      "Invalid two-factor code",
+      401,
+      "INVALID_TWO_FACTOR_CODE"
+    );
+  }
+
+  await rateLimiter.reset(attemptKey);
+
+  return startDefaultProfileSession(user, prisma, true);
+}
+
+/**
+ * Start TOTP enrollment by generating a pending secret
+ */
+export async function setupTwoFactor(
+  userId: string,
+  prisma: PrismaClient
+): Promise<TwoFactorSetupResponse> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  if (user.totpEnabledAt) {
+    throw new ConflictError("Two-factor authentication is already enabled");
+  }
+
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { totpSecret: secret, totpLastStep: null },
+  });
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email) };
+}
+
+/**
+ * Confirm TOTP enrollment, issue recovery codes and upgrade the session
+ */
+export async function enableTwoFactor(
+  userId: string,
+  profileId: string,
+  input: TwoFactorCodeInput,
+  prisma: PrismaClient
+): Promise<TwoFactorEnabledResponse> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+  });
+
+  if (!user || !user.totpSecret) {
+    throw new ValidationError("Two-factor setup has not been started");
+  }
+
+  if (user.totpEnabledAt) {
+    throw new ConflictError("Two-factor authentication is already enabled");
+  }
+
+  if (!(await acceptTotpCode(user, input.code, prisma))) {
+    throw new ValidationError(
+      "Invalid two-factor code",
+      "INVALID_TWO_FACTOR_CODE"
+    );
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: user.id },
+      data: { totpEnabledAt: new Date() },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId: user.id } }),
+    prisma.recoveryCode.createMany({
+      data: recoveryCodes.map((code) => ({
+        userId: user.id,
+        codeHash: hashToken(code),
+      })),
+    }),
+  ]);
+
+  const session = await getCurrentUser(profileId, prisma);
+  const tokens = await createSession(session, prisma, { mfa: true });
+
+  return { user: session, ...tokens, recoveryCodes };
+}
+
+/**
+ * Disable TOTP after confirming a current code or recovery code. Signs out
+ * every session, since they were started with the second factor.
+ */
+export async function disableTwoFactor(
+  userId: string,
+  input: DisableTwoFactorInput,
+  prisma: PrismaClient
+): Promise<void> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user || !user.totpEnabledAt) {
+    throw new ValidationError("Two-factor authentication is not enabled");
+  }
+
+  const enforcingWorkspace = await prisma.profile.findFirst({
+    where: {
+      userId,
+      role: { permissions: { has: "workspace:manage" } },
+      workspace: { requireAdminTwoFactor: true },
+    },
     include: { workspace: true },
   });
 
+  if (enforcingWorkspace) {
+    throw new ValidationError(
+      `Two-factor authentication is required for admins of ${enforcingWorkspace.workspace.name}`,
+      "TWO_FACTOR_REQUIRED"
+    );
+  }
+
+  if (!(await verifySecondFactor(user, input, prisma))) {
+    throw new ValidationError(
+      "Invalid two-factor code",
+      "INVALID_TWO_FACTOR_CODE"
+    );
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+  ]);
+}
+
+/**
+ * Replace all recovery codes after confirming a current TOTP code
+ */
+export async function regenerateRecoveryCodes(
+  userId: string,
+  input: TwoFactorCodeInput,
+  prisma: PrismaClient
+): Promise<string[]> {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+
+  if (!user || !user.totpEnabledAt || !user.totpSecret) {
+    throw new ValidationError("Two-factor authentication is not enabled");
+  }
+
+  if (!(await acceptTotpCode(user, input.code, prisma))) {
+    throw new ValidationError(
+      "Invalid two-factor code",
+      "INVALID_TWO_FACTOR_CODE"
+    );
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: recoveryCodes.map((code) => ({
+        userId,
+        codeHash: hashToken(code),
+      })),
+    }),
+  ]);
+
+  return recoveryCodes;
+}
+
+/**
+ * Rotate a refresh token and issue a new access token.
+ * Presenting an already rotated token revokes the whole token family.
+ */
+export async function refreshSession(
+  input: RefreshTokenInput,
+  prisma: PrismaClient
+): Promise<AuthResponse> {
+  const tokenHash = hashToken(input.refreshToken);
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash },
+    include: {
+      profile: {
+        include: { user: true, workspace: true, role: true },
+      },
+    },
+  });
+
+  if (!stored) {
+    throw new AuthenticationError("Invalid refresh token");
+  }
+
+  if (stored.revokedAt) {
+    await revokeTokenFamily(stored.familyId, prisma);
+    throw new AuthenticationError("Refresh token reuse detected");
+  }
+
+  if (stored.expiresAt < new Date()) {
+    throw new AuthenticationError("Refresh token has expired");
+  }
+
+  // Claim the token atomically so concurrent refreshes count as reuse
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (count === 0) {
+    await revokeTokenFamily(stored.familyId, prisma);
+    throw new AuthenticationError("Refresh token reuse detected");
+  }
+
+  const { profile } = stored;
   const userWithProfile = {
-    userId: user.id,
-    email: user.email,
-    name,
-    profileId: profileId,
-    workspaceId: workspaceId,
-    role: role,
-    workspaceName: workspaceName,
+    userId: profile.userId,
+    email: profile.user.email,
+    name: profile.name,
+    profileId: profile.id,
+    workspaceId: profile.workspaceId,
+    role: profile.role.name,
+    roleId: profile.roleId,
+    workspaceName: profile.workspace.name,
   };
 
-  // Generate JWT token
-  const token = generateToken(userWithProfile);
+  const tokens = await createSession(userWithProfile, prisma, {
+    familyId: stored.familyId,
+    mfa: stored.mfa,
+  });
 
-  // Session creation removed
+  await prisma.refreshToken.update({
+    where: { id: stored.id },
+    data: { replacedById: tokens.refreshTokenId },
+  });
 
   return {
     user: userWithProfile,
-    token,
+    token: tokens.token,
+    refreshToken: tokens.refreshToken,
   };
 }
 
 /**
- * Logout user by invalidating session
+ * Logout user by revoking the refresh token family of the session
+ */
+export async function logout(
+  input: LogoutInput,
+  prisma: PrismaClient
+): Promise<void> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(input.refreshToken) },
+  });
+
+  if (!stored) {
+    return;
+  }
+
+  await revokeTokenFamily(stored.familyId, prisma);
+}
+
+/**
+ * Send a password reset link. Always succeeds so that registered
+ * emails cannot be enumerated.
+ */
+export async function forgotPassword(
+  input: ForgotPasswordInput,
+  prisma: PrismaClient,
+  mailer: MailTransport,
+  rateLimiter: RateLimiter,
+  ip: string
+): Promise<void> {
+  await rateLimiter.consume(
+    `forgot-password:ip:${ip}`,
+    FORGOT_PASSWORD_IP_LIMIT
+  );
+
+  const user = await prisma.user.findUnique({
+    where: { email: input.email },
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const token = await issueUserToken(
+    user.id,
+    UserTokenType.PASSWORD_RESET,
+    PASSWORD_RESET_TTL_MINUTES,
+    prisma
+  );
+
+  // A failure here must look the same as an unknown email
+  try {
+    await mailer.send(passwordResetMail(user.email, token));
+  } catch (error) {
+    console.error("Failed to send password reset email:", error);
+  }
+}
+
+/**
+ * Reset password with a single-use token and revoke all sessions
+ */
+export async function resetPassword(
+  input: ResetPasswordInput,
+  prisma: PrismaClient
+): Promise<void> {
+  const userId = await consumeUserToken(
+    input.token,
+    UserTokenType.PASSWORD_RESET,
+    prisma
+  );
+
+  const hashedPassword = await argon2.hash(input.password);
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { password: hashedPassword },
+    }),
+    // Receiving the reset link proves ownership of the email
+    prisma.profile.updateMany({
+      where: { userId },
+      data: { isVerified: true },
+    }),
+    prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    }),
+  ]);
+}
+
+/**
+ * Verify email with a single-use token
  */
-// export async function logout(
-//   token: string,
-//   prisma: PrismaClient
-// ): Promise<void> {
-//   // Stateless logout (client-side only)
-//   return;
-// }
+export async function verifyEmail(
+  input: VerifyEmailInput,
+  prisma: PrismaClient
+): Promise<void> {
+  const userId = await consumeUserToken(
+    input.token,
+    UserTokenType.EMAIL_VERIFICATION,
+    prisma
+  );
+
+  await prisma.profile.updateMany({
+    where: { userId },
+    data: { isVerified: true },
+  });
+}
+
+/**
+ * Send a new verification email to the current user
+ */
+export async function resendVerificationEmail(
+  userId: string,
+  prisma: PrismaClient,
+  mailer: MailTransport
+): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { profiles: { where: { isVerified: true }, take: 1 } },
+  });
+
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+
+  if (user.profiles.length > 0) {
+    throw new ValidationError("Email is already verified");
+  }
+
+  await sendVerificationEmail(user, prisma, mailer);
+}
 
 /**
  * Switch workspace
@@ -172,7 +622,8 @@ export async function login(
 export async function switchWorkspace(
   userId: string,
   input: SwitchWorkspaceInput,
-  prisma: PrismaClient
+  prisma: PrismaClient,
+  mfa: boolean = false
 ): Promise<AuthResponse> {
   const { workspaceId } = input;
 
@@ -187,6 +638,7 @@ export async function switchWorkspace(
     include: {
       user: true,
       workspace: true,
+      role: true,
     },
   });
 
@@ -204,15 +656,16 @@ export async function switchWorkspace(
     name: profile.name,
     profileId: profile.id,
     workspaceId: profile.workspaceId,
-    role: profile.role,
+    role: profile.role.name,
+    roleId: profile.roleId,
     workspaceName: profile.workspace.name,
   };
 
-  // Generate new token for the target workspace
-  const token = generateToken(userWithProfile);
+  // Start a new session for the target workspace
+  const tokens = await createSession(userWithProfile, prisma, { mfa });
 
   return {
-    token,
+    ...tokens,
     user: userWithProfile,
   };
 }
@@ -225,8 +678,7 @@ export async function validateToken(
   prisma: PrismaClient
 ): Promise<User | null> {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    console.log("decoded", decoded);
+    const decoded = verifyAccessToken(token);
     // Check if user exists (optional for stateless, but good for security)
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
@@ -244,12 +696,13 @@ export async function validateToken(
 export async function getCurrentUser(
   profileId: string,
   prisma: PrismaClient
-): Promise<UserResponse> {
+): Promise<CurrentUserResponse> {
   const profile = await prisma.profile.findUnique({
     where: { id: profileId },
     include: {
       user: true,
       workspace: true,
+      role: true,
     },
   });
 
@@ -262,13 +715,46 @@ export async function getCurrentUser(
     name: profile.name,
     profileId: profile.id,
     workspaceId: profile.workspaceId,
-    role: profile.role,
+    role: profile.role.name,
+    roleId: profile.roleId,
     email: profile.user.email,
     workspaceName: profile.workspace.name,
+    timezone: profile.timezone,
+    effectiveTimezone: resolveTimeZone(
+      profile.timezone,
+      profile.workspace.timezone
+    ),
+    idleThresholdSeconds: profile.idleThresholdSeconds,
   };
   return userWithProfile;
 }
 
+/**
+ * Update the current profile's name, timezone and idle threshold. A new
+ * threshold is applied to the last THRESHOLD_RECOMPUTE_DAYS of activity.
+ */
+export async function updateCurrentUser(
+  profileId: string,
+  input: UpdateProfileInput,
+  prisma: PrismaClient
+): Promise<CurrentUserResponse> {
+  const { idleThresholdSeconds } = input;
+  await prisma.profile.update({
+    where: { id: profileId },
+    data: { name: input.name, timezone: input.timezone, idleThresholdSeconds },
+  });
+
+  if (idleThresholdSeconds !== undefined) {
+    const end = new Date();
+    const start = new Date(
+      end.getTime() - THRESHOLD_RECOMPUTE_DAYS * 24 * 60 * 60 * 1000
+    );
+    await recomputeActiveDurations(profileId, { start, end }, prisma);
+  }
+
+  return getCurrentUser(profileId, prisma);
+}
+
 /**
  * Get all users (admin only)
  */
@@ -281,6 +767,7 @@ export async function getAllUsers(
     include: {
       user: true,
       workspace: true,
+      role: true,
     },
   });
 
@@ -290,7 +777,8 @@ export async function getAllUsers(
     name: profile.name,
     profileId: profile.id,
     workspaceId: profile.workspaceId,
-    role: profile.role,
+    role: profile.role.name,
+    roleId: profile.roleId,
     workspaceName: profile.workspace.name,
   }));
 }
@@ -308,6 +796,7 @@ export async function getUserById(
     include: {
       user: true,
       workspace: true,
+      role: true,
     },
   });
 
@@ -321,26 +810,233 @@ export async function getUserById(
     name: profile.name,
     profileId: profile.id,
     workspaceId: profile.workspaceId,
-    role: profile.role,
+    role: profile.role.name,
+    roleId: profile.roleId,
     workspaceName: profile.workspace.name,
   };
   return userWithProfile;
 }
 
 /**
- * Generate JWT token
+ * Issue an access token and a refresh token for a profile.
+ * A new token family is started unless one is passed in (rotation).
  */
+async function createSession(
+  user: UserResponse,
+  prisma: PrismaClient,
+  options: { familyId?: string; mfa?: boolean } = {}
+): Promise<SessionTokens & { refreshTokenId: string }> {
+  const { familyId = randomUUID(), mfa = false } = options;
+  const { token: refreshToken, tokenHash } = generateOpaqueToken();
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + REFRESH_TOKEN_TTL_DAYS);
+
+  const stored = await prisma.refreshToken.create({
+    data: {
+      userId: user.userId,
+      profileId: user.profileId,
+      familyId,
+      tokenHash,
+      expiresAt,
+      mfa,
+    },
+  });
+
+  return {
+    token: signAccessToken({
+      userId: user.userId,
+      profileId: user.profileId,
+      workspaceId: user.workspaceId,
+      roleId: user.roleId,
+      mfa,
+    }),
+    refreshToken,
+    refreshTokenId: stored.id,
+  };
+}
+
 /**
- * Generate JWT token
+ * Start a session for the default profile of a user
  */
-function generateToken(user: UserResponse): string {
-  const payload = {
-    ...user,
-    jti: randomUUID(),
+async function startDefaultProfileSession(
+  user: User,
+  prisma: PrismaClient,
+  mfa: boolean
+): Promise<AuthResponse> {
+  // Get user's profiles
+  const {
+    id: profileId,
+    workspaceId: workspaceId,
+    workspace: { name: workspaceName },
+    role: { name: role },
+    roleId,
+    name,
+  } = await prisma.profile.findFirstOrThrow({
+    where: { userId: user.id, isDefault: true },
+    include: { workspace: true, role: true },
+  });
+
+  const userWithProfile = {
+    userId: user.id,
+    email: user.email,
+    name,
+    profileId: profileId,
+    workspaceId: workspaceId,
+    role: role,
+    roleId,
+    workspaceName: workspaceName,
+  };
+
+  const tokens = await createSession(userWithProfile, prisma, { mfa });
+
+  return {
+    user: userWithProfile,
+    ...tokens,
   };
+}
+
+/**
+ * Check a TOTP code and record its time step, so each code works once
+ */
+async function acceptTotpCode(
+  user: User,
+  code: string,
+  prisma: PrismaClient
+): Promise<boolean> {
+  if (!user.totpSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(user.totpSecret, code, user.totpLastStep);
+  if (step === null) {
+    return false;
+  }
+
+  // Claim the step atomically so concurrent requests can't both use it
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+    },
+    data: { totpLastStep: step },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Check a TOTP code, or consume a recovery code
+ */
+async function verifySecondFactor(
+  user: User,
+  input: { code?: string; recoveryCode?: string },
+  prisma: PrismaClient
+): Promise<boolean> {
+  if (input.code) {
+    return acceptTotpCode(user, input.code, prisma);
+  }
+
+  if (input.recoveryCode) {
+    const { count } = await prisma.recoveryCode.updateMany({
+      where: {
+        userId: user.id,
+        codeHash: hashToken(input.recoveryCode.trim().toLowerCase()),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+    return count > 0;
+  }
+
+  return false;
+}
+
+/**
+ * Create a single-use token and return its plain value
+ */
+async function issueUserToken(
+  userId: string,
+  type: UserTokenType,
+  ttlMinutes: number,
+  prisma: PrismaClient
+): Promise<string> {
+  const { token, tokenHash } = generateOpaqueToken();
+  const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+  // Only the latest token of a type stays usable
+  await prisma.userToken.updateMany({
+    where: { userId, type, usedAt: null },
+    data: { usedAt: new Date() },
+  });
 
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: JWT_EXPIRES_IN,
+  await prisma.userToken.create({
+    data: { userId, type, tokenHash, expiresAt },
+  });
+
+  return token;
+}
+
+/**
+ * Mark a single-use token as used and return its user ID
+ */
+async function consumeUserToken(
+  token: string,
+  type: UserTokenType,
+  prisma: PrismaClient
+): Promise<string> {
+  const stored = await prisma.userToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!stored || stored.type !== type || stored.expiresAt < new Date()) {
+    throw new ValidationError("Invalid or expired token", "INVALID_TOKEN");
+  }
+
+  const { count } = await prisma.userToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new ValidationError("Invalid or expired token", "INVALID_TOKEN");
+  }
+
+  return stored.userId;
+}
+
+/**
+ * Issue an email verification token and mail it. Delivery failures are
+ * logged so they do not break the calling flow.
+ */
+async function sendVerificationEmail(
+  user: User,
+  prisma: PrismaClient,
+  mailer: MailTransport
+): Promise<void> {
+  const token = await issueUserToken(
+    user.id,
+    UserTokenType.EMAIL_VERIFICATION,
+    EMAIL_VERIFICATION_TTL_MINUTES,
+    prisma
+  );
+
+  try {
+    await mailer.send(emailVerificationMail(user.email, token));
+  } catch (error) {
+    console.error("Failed to send verification email:", error);
+  }
+}
+
+/**
+ * Revoke every refresh token in a family
+ */
+async function revokeTokenFamily(
+  familyId: string,
+  prisma: PrismaClient
+): Promise<void> {
+  await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
   });
 }
 
@@ -389,8 +1085,3 @@ export async function makeProfileDefault(
     });
   });
 }
-
-/**
- * Create session for user
- */
-// createSession removed
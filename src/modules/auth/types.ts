@@ -4,6 +4,15 @@ import {
   REGISTER_SCHEMA,
   SWITCH_WORKSPACE_SCHEMA,
   MAKE_PROFILE_DEFAULT_SCHEMA,
+  REFRESH_TOKEN_SCHEMA,
+  LOGOUT_SCHEMA,
+  FORGOT_PASSWORD_SCHEMA,
+  RESET_PASSWORD_SCHEMA,
+  VERIFY_EMAIL_SCHEMA,
+  VERIFY_TWO_FACTOR_SCHEMA,
+  TWO_FACTOR_CODE_SCHEMA,
+  DISABLE_TWO_FACTOR_SCHEMA,
+  UPDATE_PROFILE_SCHEMA,
 } from "./schema";
 
 export type RegisterInput = z.infer<typeof REGISTER_SCHEMA>;
@@ -12,6 +21,15 @@ export type SwitchWorkspaceInput = z.infer<typeof SWITCH_WORKSPACE_SCHEMA>;
 export type MakeProfileDefaultInput = z.infer<
   typeof MAKE_PROFILE_DEFAULT_SCHEMA
 >;
+export type RefreshTokenInput = z.infer<typeof REFRESH_TOKEN_SCHEMA>;
+export type LogoutInput = z.infer<typeof LOGOUT_SCHEMA>;
+export type ForgotPasswordInput = z.infer<typeof FORGOT_PASSWORD_SCHEMA>;
+export type ResetPasswordInput = z.infer<typeof RESET_PASSWORD_SCHEMA>;
+export type VerifyEmailInput = z.infer<typeof VERIFY_EMAIL_SCHEMA>;
+export type VerifyTwoFactorInput = z.infer<typeof VERIFY_TWO_FACTOR_SCHEMA>;
+export type TwoFactorCodeInput = z.infer<typeof TWO_FACTOR_CODE_SCHEMA>;
+export type DisableTwoFactorInput = z.infer<typeof DISABLE_TWO_FACTOR_SCHEMA>;
+export type UpdateProfileInput = z.infer<typeof UPDATE_PROFILE_SCHEMA>;
 
 // User interface (partial of Prisma User)
 export interface UserResponse {
@@ -22,9 +40,37 @@ export interface UserResponse {
   workspaceId: string;
   workspaceName: string;
   role: string;
+  roleId: string;
 }
 
-export interface AuthResponse {
-  user: UserResponse;
+export interface CurrentUserResponse extends UserResponse {
+  // Own timezone, null when following the workspace
+  timezone: string | null;
+  effectiveTimezone: string;
+  idleThresholdSeconds: number;
+}
+
+export interface SessionTokens {
   token: string;
+  refreshToken: string;
+}
+
+export interface AuthResponse extends SessionTokens {
+  user: UserResponse;
+}
+
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallengeResponse;
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorEnabledResponse extends AuthResponse {
+  recoveryCodes: string[];
 }
@@ -0,0 +1,75 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import { BUDGET_PARAM_SCHEMA, SET_BUDGET_SCHEMA } from "./schema";
+import { deleteBudget, getBudgetStatus, setBudget } from "./service";
+
+const budgetRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Get the project's budget with its burn-down
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:id/budget",
+    config: { permission: "report:read" },
+    schema: {
+      params: BUDGET_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const result = await getBudgetStatus(
+        prisma,
+        workspaceId,
+        request.params.id
+      );
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Set the project's budget
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "PUT",
+    url: "/:id/budget",
+    config: { permission: "project:write" },
+    schema: {
+      params: BUDGET_PARAM_SCHEMA,
+      body: SET_BUDGET_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const result = await setBudget(
+        prisma,
+        workspaceId,
+        request.params.id,
+        request.body
+      );
+
+      return reply.send({
+        data: result,
+        message: "Budget updated successfully",
+      });
+    },
+  });
+
+  // Remove the project's budget
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "DELETE",
+    url: "/:id/budget",
+    config: { permission: "project:write" },
+    schema: {
+      params: BUDGET_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      await deleteBudget(prisma, workspaceId, request.params.id);
+
+      return reply.send({
+        message: "Budget deleted successfully",
+      });
+    },
+  });
+};
+
+export default budgetRoutes;
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { SET_BUDGET_SCHEMA } from "./schema";
+
+describe("SET_BUDGET_SCHEMA", () => {
+  it("rejects a start date that isn't on the calendar", () => {
+    const result = SET_BUDGET_SCHEMA.safeParse({
+      type: "HOURS",
+      amount: 40,
+      startDate: "2025-13-45",
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
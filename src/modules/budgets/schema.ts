@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { BudgetPeriod, BudgetType } from "@prisma/client";
+
+export const BUDGET_PARAM_SCHEMA = z.object({
+  id: z.coerce.number().int().min(1, "Project ID is required"),
+});
+
+export const SET_BUDGET_SCHEMA = z
+  .object({
+    type: z.enum(BudgetType),
+    amount: z
+      .number()
+      .positive()
+      .max(1_000_000_000)
+      .describe("Hours, or money in currency"),
+    currency: z
+      .string()
+      .regex(/^[A-Za-z]{3}$/, "Currency must be an ISO 4217 code")
+      .transform((code) => code.toUpperCase())
+      .optional(),
+    period: z.enum(BudgetPeriod).default("ONCE"),
+    startDate: z.iso
+      .date("Date must be a valid date in YYYY-MM-DD format")
+      .describe("First day counted, in the workspace's timezone"),
+  })
+  .refine((budget) => budget.type !== "MONEY" || budget.currency, {
+    message: "Money budgets need a currency",
+    path: ["currency"],
+  });
@@ -0,0 +1,237 @@
+import { Prisma, PrismaClient, ProjectBudget } from "@prisma/client";
+import { NotFoundError } from "../../plugins/error/plugin";
+import {
+  addDays,
+  getLocalDate,
+  getZonedDayRange,
+  resolveTimeZone,
+} from "../../plugins/time/timezone";
+import { createRateResolver } from "../rates/service";
+import { BudgetResponse, BudgetStatus, SetBudgetInput } from "./types";
+
+const budgetProjectInclude = {
+  project: {
+    select: {
+      id: true,
+      workspaceId: true,
+      billable: true,
+      workspace: { select: { timezone: true } },
+    },
+  },
+} satisfies Prisma.ProjectBudgetInclude;
+
+export type BudgetWithProject = Prisma.ProjectBudgetGetPayload<{
+  include: typeof budgetProjectInclude;
+}>;
+
+/**
+ * Get a project's budget with what's burned in the current period
+ */
+export async function getBudgetStatus(
+  prisma: PrismaClient,
+  workspaceId: string,
+  projectId: number
+): Promise<BudgetStatus> {
+  const budget = await prisma.projectBudget.findFirst({
+    where: { projectId, project: { workspaceId, deletedAt: null } },
+    include: budgetProjectInclude,
+  });
+
+  if (!budget) {
+    throw new NotFoundError("Project has no budget");
+  }
+
+  return computeBudgetStatus(prisma, budget, new Date());
+}
+
+/**
+ * Set or replace a project's budget
+ */
+export async function setBudget(
+  prisma: PrismaClient,
+  workspaceId: string,
+  projectId: number,
+  input: SetBudgetInput
+): Promise<BudgetResponse> {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, workspaceId, deletedAt: null },
+    select: { id: true },
+  });
+
+  if (!project) {
+    throw new NotFoundError("Project not found");
+  }
+
+  const data = {
+    type: input.type,
+    amount: input.amount,
+    currency: input.type === "MONEY" ? input.currency : null,
+    period: input.period,
+    startDate: new Date(`${input.startDate}T00:00:00.000Z`),
+  };
+  const budget = await prisma.projectBudget.upsert({
+    where: { projectId },
+    create: { ...data, projectId },
+    update: data,
+  });
+
+  return toBudgetResponse(budget);
+}
+
+/**
+ * Remove a project's budget
+ */
+export async function deleteBudget(
+  prisma: PrismaClient,
+  workspaceId: string,
+  projectId: number
+): Promise<void> {
+  const { count } = await prisma.projectBudget.deleteMany({
+    where: { projectId, project: { workspaceId } },
+  });
+
+  if (!count) {
+    throw new NotFoundError("Project has no budget");
+  }
+}
+
+/**
+ * Burn of a budget's period containing `now`, from the activities assigned
+ * to the project. Hours count all tracked time, money only billable time at
+ * rates in the budget's currency. Days are in the workspace's timezone.
+ */
+export async function computeBudgetStatus(
+  prisma: PrismaClient,
+  budget: BudgetWithProject,
+  now: Date
+): Promise<BudgetStatus> {
+  const { project } = budget;
+  const timeZone = resolveTimeZone(null, project.workspace.timezone);
+  const today = getLocalDate(now, timeZone);
+  const startDate = budget.startDate.toISOString().slice(0, 10);
+
+  let periodStart = startDate;
+  let periodEnd: string | null = null;
+  if (budget.period === "MONTHLY") {
+    const monthStart = `${today.slice(0, 7)}-01`;
+    periodStart = startDate > monthStart ? startDate : monthStart;
+    periodEnd = addMonth(monthStart);
+  }
+
+  const amount = budget.amount.toNumber();
+  const burnedByDay = new Map<string, number>();
+  let unratedSeconds = 0;
+
+  if (periodStart <= today) {
+    const [activities, rates] = await Promise.all([
+      prisma.activity.findMany({
+        where: {
+          projectId: project.id,
+          timestamp: {
+            gte: getZonedDayRange(periodStart, timeZone).start,
+            lt: getZonedDayRange(today, timeZone).end,
+          },
+        },
+        select: {
+          profileId: true,
+          timestamp: true,
+          duration: true,
+          billable: true,
+          profile: { select: { timezone: true } },
+        },
+      }),
+      budget.type === "MONEY"
+        ? prisma.hourlyRate.findMany({
+            where: {
+              workspaceId: project.workspaceId,
+              currency: budget.currency || "",
+            },
+          })
+        : [],
+    ]);
+    const resolveRate = createRateResolver(rates);
+
+    for (const activity of activities) {
+      const seconds = activity.duration || 0;
+      let burned = seconds / 3600;
+
+      if (budget.type === "MONEY") {
+        if (!(activity.billable ?? project.billable)) continue;
+
+        const rate = resolveRate(
+          project.id,
+          activity.profileId,
+          getLocalDate(
+            activity.timestamp,
+            resolveTimeZone(activity.profile.timezone, timeZone)
+          )
+        );
+        if (!rate) {
+          unratedSeconds += seconds;
+          continue;
+        }
+        burned *= rate.amount;
+      }
+
+      const day = getLocalDate(activity.timestamp, timeZone);
+      burnedByDay.set(day, (burnedByDay.get(day) || 0) + burned);
+    }
+  }
+
+  const series: BudgetStatus["series"] = [];
+  let burned = 0;
+  for (let day = periodStart; day <= today; day = addDays(day, 1)) {
+    burned += burnedByDay.get(day) || 0;
+    series.push({
+      date: day,
+      burned: round(burned),
+      remaining: round(amount - burned),
+    });
+  }
+
+  return {
+    budget: toBudgetResponse(budget),
+    periodStart,
+    periodEnd,
+    burned: round(burned),
+    remaining: round(amount - burned),
+    percent: round((burned / amount) * 100),
+    unratedHours: round(unratedSeconds / 3600),
+    series,
+  };
+}
+
+/**
+ * Budgets of active projects with the details needed to compute their
+ * status
+ */
+export async function getBudgetsWithProjects(
+  prisma: PrismaClient
+): Promise<BudgetWithProject[]> {
+  return prisma.projectBudget.findMany({
+    where: { project: { archivedAt: null, deletedAt: null } },
+    include: budgetProjectInclude,
+  });
+}
+
+function addMonth(monthStart: string): string {
+  const date = new Date(`${monthStart}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toBudgetResponse(budget: ProjectBudget): BudgetResponse {
+  return {
+    id: budget.id,
+    projectId: budget.projectId,
+    type: budget.type,
+    amount: budget.amount.toNumber(),
+    currency: budget.currency,
+    period: budget.period,
+    startDate: budget.startDate.toISOString().slice(0, 10),
+  };
+}
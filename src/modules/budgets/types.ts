@@ -0,0 +1,32 @@
+import { BudgetPeriod, BudgetType } from "@prisma/client";
+import { z } from "zod";
+import { SET_BUDGET_SCHEMA } from "./schema";
+
+export type SetBudgetInput = z.infer<typeof SET_BUDGET_SCHEMA>;
+
+// Budget interface
+export interface BudgetResponse {
+  id: string;
+  projectId: number;
+  type: BudgetType;
+  amount: number;
+  currency: string | null;
+  period: BudgetPeriod;
+  // YYYY-MM-DD
+  startDate: string;
+}
+
+// Budget burned in the current period, in hours or money
+export interface BudgetStatus {
+  budget: BudgetResponse;
+  // YYYY-MM-DD, the end is exclusive and null for one-off budgets
+  periodStart: string;
+  periodEnd: string | null;
+  burned: number;
+  remaining: number;
+  percent: number;
+  // Billable hours without a rate in the budget's currency, money only
+  unratedHours: number;
+  // Cumulative burn at the end of each day of the period so far
+  series: Array<{ date: string; burned: number; remaining: number }>;
+}
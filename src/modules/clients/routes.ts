@@ -0,0 +1,116 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import { CLIENT_ID_PARAM_SCHEMA, CLIENT_SCHEMA } from "./schema";
+import {
+  createClient,
+  deleteClient,
+  getClients,
+  updateClient,
+} from "./service";
+import { REPORT_PERIOD_SCHEMA } from "../reports/schema";
+import { getClientReport } from "../reports/service";
+
+const clientRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Get clients of the workspace
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/",
+    config: { permission: "project:read" },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const result = await getClients(prisma, workspaceId);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Create client
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/",
+    config: { permission: "project:write" },
+    schema: {
+      body: CLIENT_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const result = await createClient(prisma, workspaceId, request.body);
+
+      return reply.status(201).send({
+        data: result,
+        message: "Client created successfully",
+      });
+    },
+  });
+
+  // Update client
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "PUT",
+    url: "/:id",
+    config: { permission: "project:write" },
+    schema: {
+      params: CLIENT_ID_PARAM_SCHEMA,
+      body: CLIENT_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const { id } = request.params;
+      const result = await updateClient(prisma, workspaceId, id, request.body);
+
+      return reply.send({
+        data: result,
+        message: "Client updated successfully",
+      });
+    },
+  });
+
+  // Delete client
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "DELETE",
+    url: "/:id",
+    config: { permission: "project:write" },
+    schema: {
+      params: CLIENT_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const { id } = request.params;
+      await deleteClient(prisma, workspaceId, id);
+
+      return reply.send({
+        message: "Client deleted successfully",
+      });
+    },
+  });
+
+  // Get hours and amounts of the client's projects
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:id/report",
+    config: { permission: "report:read" },
+    schema: {
+      params: CLIENT_ID_PARAM_SCHEMA,
+      querystring: REPORT_PERIOD_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const { id } = request.params;
+      const result = await getClientReport(
+        prisma,
+        workspaceId,
+        id,
+        request.query
+      );
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+};
+
+export default clientRoutes;
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+export const CLIENT_SCHEMA = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Client name is required")
+    .max(100, "Client name must be less than 100 characters"),
+});
+
+export const CLIENT_ID_PARAM_SCHEMA = z.object({
+  id: z.coerce.number().int().min(1, "Client ID is required"),
+});
@@ -0,0 +1,93 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { NotFoundError } from "../../plugins/error/plugin";
+import { ClientInput, ClientResponse } from "./types";
+
+const clientSelect = {
+  id: true,
+  name: true,
+  createdAt: true,
+  updatedAt: true,
+  projects: {
+    where: { deletedAt: null },
+    select: { id: true, name: true, archivedAt: true },
+    orderBy: { name: "asc" },
+  },
+} satisfies Prisma.ClientSelect;
+
+/**
+ * Get the workspace's clients with their projects
+ */
+export async function getClients(
+  prisma: PrismaClient,
+  workspaceId: string
+): Promise<ClientResponse[]> {
+  return prisma.client.findMany({
+    where: { workspaceId },
+    select: clientSelect,
+    orderBy: { name: "asc" },
+  });
+}
+
+/**
+ * Create a client
+ */
+export async function createClient(
+  prisma: PrismaClient,
+  workspaceId: string,
+  input: ClientInput
+): Promise<ClientResponse> {
+  return prisma.client.create({
+    data: { ...input, workspaceId },
+    select: clientSelect,
+  });
+}
+
+/**
+ * Rename a client
+ */
+export async function updateClient(
+  prisma: PrismaClient,
+  workspaceId: string,
+  id: number,
+  input: ClientInput
+): Promise<ClientResponse> {
+  await findClient(prisma, workspaceId, id);
+
+  return prisma.client.update({
+    where: { id },
+    data: input,
+    select: clientSelect,
+  });
+}
+
+/**
+ * Delete a client, its projects are kept without one
+ */
+export async function deleteClient(
+  prisma: PrismaClient,
+  workspaceId: string,
+  id: number
+): Promise<void> {
+  await findClient(prisma, workspaceId, id);
+  await prisma.client.delete({ where: { id } });
+}
+
+/**
+ * Get a client of the workspace
+ */
+export async function findClient(
+  prisma: PrismaClient,
+  workspaceId: string,
+  id: number
+): Promise<{ id: number; name: string }> {
+  const client = await prisma.client.findFirst({
+    where: { id, workspaceId },
+    select: { id: true, name: true },
+  });
+
+  if (!client) {
+    throw new NotFoundError("Client not found");
+  }
+
+  return client;
+}
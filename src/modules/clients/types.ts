@@ -0,0 +1,13 @@
+import { z } from "zod";
+import { CLIENT_SCHEMA } from "./schema";
+
+export type ClientInput = z.infer<typeof CLIENT_SCHEMA>;
+
+// Client interface with its projects
+export interface ClientResponse {
+  id: number;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  projects: { id: number; name: string; archivedAt: Date | null }[];
+}
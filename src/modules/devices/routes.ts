@@ -0,0 +1,64 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import { CREATE_DEVICE_SCHEMA, DEVICE_ID_PARAM_SCHEMA } from "./schema";
+import { createDevice, getDevices, revokeDevice } from "./service";
+
+const deviceRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Create device API key
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/",
+    config: { permission: "device:manage" },
+    schema: {
+      body: CREATE_DEVICE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const input = request.body;
+      const result = await createDevice(prisma, input, profileId);
+
+      return reply.status(201).send({
+        data: result,
+        message: "Device created successfully",
+      });
+    },
+  });
+
+  // Get all devices of the current profile
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/",
+    config: { permission: "device:manage" },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await getDevices(prisma, profileId);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Revoke device
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "DELETE",
+    url: "/:id",
+    config: { permission: "device:manage" },
+    schema: {
+      params: DEVICE_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const { id } = request.params;
+      await revokeDevice(prisma, id, profileId);
+
+      return reply.send({
+        message: "Device revoked successfully",
+      });
+    },
+  });
+};
+
+export default deviceRoutes;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { DEVICE_PERMISSIONS } from "../../plugins/auth/permissions";
+
+export const DEVICE_SCOPES = DEVICE_PERMISSIONS;
+
+export const CREATE_DEVICE_SCHEMA = z.object({
+  name: z
+    .string()
+    .min(1, "Device name is required")
+    .max(100, "Device name must be less than 100 characters"),
+  scopes: z.array(z.enum(DEVICE_SCOPES)).min(1).optional(),
+});
+
+export const DEVICE_ID_PARAM_SCHEMA = z.object({
+  id: z.string().min(1, "Device ID is required"),
+});
@@ -0,0 +1,75 @@
+import { PrismaClient } from "@prisma/client";
+import { randomBytes } from "crypto";
+import {
+  CreateDeviceInput,
+  CreatedDeviceResponse,
+  DeviceResponse,
+} from "./types";
+import { NotFoundError } from "../../plugins/error/plugin";
+import { DEVICE_KEY_PREFIX, hashToken } from "../../plugins/auth/tokens";
+
+const DEVICE_SELECT = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  scopes: true,
+  lastSeenAt: true,
+  revokedAt: true,
+  createdAt: true,
+};
+
+/**
+ * Create a device API key for a profile
+ */
+export async function createDevice(
+  prisma: PrismaClient,
+  input: CreateDeviceInput,
+  profileId: string
+): Promise<CreatedDeviceResponse> {
+  const apiKey = `${DEVICE_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+  const device = await prisma.device.create({
+    data: {
+      profileId,
+      name: input.name,
+      keyPrefix: apiKey.slice(0, DEVICE_KEY_PREFIX.length + 6),
+      keyHash: hashToken(apiKey),
+      scopes: input.scopes,
+    },
+    select: DEVICE_SELECT,
+  });
+
+  return { ...device, apiKey };
+}
+
+/**
+ * Get all devices of a profile
+ */
+export async function getDevices(
+  prisma: PrismaClient,
+  profileId: string
+): Promise<DeviceResponse[]> {
+  return prisma.device.findMany({
+    where: { profileId },
+    select: DEVICE_SELECT,
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Revoke a device API key
+ */
+export async function revokeDevice(
+  prisma: PrismaClient,
+  id: string,
+  profileId: string
+): Promise<void> {
+  const { count } = await prisma.device.updateMany({
+    where: { id, profileId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new NotFoundError("Device not found");
+  }
+}
@@ -0,0 +1,20 @@
+import { z } from "zod";
+import { CREATE_DEVICE_SCHEMA } from "./schema";
+
+export type CreateDeviceInput = z.infer<typeof CREATE_DEVICE_SCHEMA>;
+
+// Device interface (never exposes the key hash)
+export interface DeviceResponse {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  lastSeenAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreatedDeviceResponse extends DeviceResponse {
+  // Plain API key, only returned once at creation time
+  apiKey: string;
+}
@@ -0,0 +1,62 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import { EXPORT_PROFILE_PARAM_SCHEMA, EXPORT_QUERY_SCHEMA } from "./schema";
+import { exportActivities, exportMemberActivities } from "./service";
+
+const exportRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Download the current profile's activities
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/",
+    config: { permission: "activity:read" },
+    schema: {
+      querystring: EXPORT_QUERY_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await exportActivities(prisma, profileId, request.query);
+
+      return reply
+        .header("Content-Type", result.contentType)
+        .header(
+          "Content-Disposition",
+          `attachment; filename="${result.fileName}"`
+        )
+        .send(result.stream);
+    },
+  });
+
+  // Download the selected activities of a member
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:profileId",
+    config: { permission: "activity:read:members" },
+    schema: {
+      params: EXPORT_PROFILE_PARAM_SCHEMA,
+      querystring: EXPORT_QUERY_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { userId = "", workspaceId = "" } = request.user || {};
+      const { profileId } = request.params;
+      const result = await exportMemberActivities(
+        prisma,
+        workspaceId,
+        profileId,
+        request.query,
+        userId
+      );
+
+      return reply
+        .header("Content-Type", result.contentType)
+        .header(
+          "Content-Disposition",
+          `attachment; filename="${result.fileName}"`
+        )
+        .send(result.stream);
+    },
+  });
+};
+
+export default exportRoutes;
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+export const EXPORT_FORMATS = ["csv", "json", "ics"] as const;
+
+export const EXPORT_QUERY_SCHEMA = z
+  .object({
+    format: z.enum(EXPORT_FORMATS).default("csv"),
+    startDate: z.iso
+      .date("Date must be a valid date in YYYY-MM-DD format")
+      .describe("First day, in the profile's timezone"),
+    endDate: z.iso
+      .date("Date must be a valid date in YYYY-MM-DD format")
+      .describe("Last day, included"),
+  })
+  .refine((query) => query.startDate <= query.endDate, {
+    message: "startDate must not be after endDate",
+    path: ["endDate"],
+  });
+
+export const EXPORT_PROFILE_PARAM_SCHEMA = z.object({
+  profileId: z.string().min(1, "Profile ID is required"),
+});
@@ -0,0 +1,336 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { Readable } from "stream";
+import { NotFoundError } from "../../plugins/error/plugin";
+import { toCsvRow } from "../../plugins/csv/format";
+import {
+  addDays,
+  getZonedDayRange,
+  resolveTimeZone,
+} from "../../plugins/time/timezone";
+import { buildTimelineBlocks, getTimelineEntries } from "../activities/service";
+import { recordAuditEvent } from "../audit/service";
+import { ActivityExport, ExportFormat, ExportQuery } from "./types";
+
+const EXPORT_BATCH_SIZE = 1000;
+// Same joining of nearby events as the timeline's default
+const ICS_GAP_SECONDS = 120;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ics: "text/calendar; charset=utf-8",
+};
+
+const CSV_COLUMNS = [
+  "id",
+  "timestamp",
+  "duration",
+  "rawDuration",
+  "app",
+  "title",
+  "url",
+  "description",
+  "tag",
+  "projectId",
+  "project",
+  "selected",
+  "source",
+];
+
+const activityExportInclude = {
+  project: { select: { name: true } },
+} satisfies Prisma.ActivityInclude;
+
+type ExportedActivity = Prisma.ActivityGetPayload<{
+  include: typeof activityExportInclude;
+}>;
+
+interface ExportOptions {
+  // Only activities the member shared by selecting them
+  selectedOnly?: boolean;
+}
+
+/**
+ * Stream the profile's activities on the days from startDate to endDate in
+ * its timezone as CSV or JSON rows, or as one calendar event per timeline
+ * block
+ */
+export async function exportActivities(
+  prisma: PrismaClient,
+  profileId: string,
+  query: ExportQuery,
+  options: ExportOptions = {}
+): Promise<ActivityExport> {
+  const { format, startDate, endDate } = query;
+  const profile = await prisma.profile.findUniqueOrThrow({
+    where: { id: profileId },
+    select: {
+      workspaceId: true,
+      timezone: true,
+      workspace: { select: { timezone: true } },
+    },
+  });
+
+  const timeZone = resolveTimeZone(
+    profile.timezone,
+    profile.workspace.timezone
+  );
+  const range = {
+    start: getZonedDayRange(startDate, timeZone).start,
+    end: getZonedDayRange(endDate, timeZone).end,
+  };
+
+  const chunks =
+    format === "ics"
+      ? icsChunks(
+          prisma,
+          profileId,
+          profile.workspaceId,
+          timeZone,
+          query,
+          options
+        )
+      : rowChunks(prisma, profileId, query, range, options);
+
+  return {
+    contentType: CONTENT_TYPES[format],
+    fileName: `activities-${startDate}-${endDate}.${format}`,
+    stream: Readable.from(chunks),
+  };
+}
+
+/**
+ * Export the selected activities of a member, audited like viewing them
+ */
+export async function exportMemberActivities(
+  prisma: PrismaClient,
+  workspaceId: string,
+  profileId: string,
+  query: ExportQuery,
+  actorId: string
+): Promise<ActivityExport> {
+  const profile = await prisma.profile.findFirst({
+    where: { id: profileId, workspaceId },
+    select: { userId: true },
+  });
+
+  if (!profile) {
+    throw new NotFoundError("User is not a member of this workspace");
+  }
+
+  await recordAuditEvent(prisma, {
+    workspaceId,
+    actorId,
+    action: "MEMBER_ACTIVITY_EXPORTED",
+    targetId: profile.userId,
+    after: {
+      profileId,
+      format: query.format,
+      startDate: query.startDate,
+      endDate: query.endDate,
+    },
+  });
+
+  return exportActivities(prisma, profileId, query, { selectedOnly: true });
+}
+
+async function* rowChunks(
+  prisma: PrismaClient,
+  profileId: string,
+  query: ExportQuery,
+  range: { start: Date; end: Date },
+  options: ExportOptions
+): AsyncGenerator<string> {
+  const isCsv = query.format === "csv";
+  let first = true;
+
+  yield isCsv ? toCsvRow(CSV_COLUMNS) : "[";
+
+  for await (const batch of activityBatches(
+    prisma,
+    profileId,
+    range,
+    options
+  )) {
+    let chunk = "";
+    for (const activity of batch) {
+      if (isCsv) {
+        chunk += toCsvRow([
+          activity.id,
+          activity.timestamp.toISOString(),
+          activity.duration,
+          activity.rawDuration,
+          activity.app,
+          activity.title,
+          activity.url,
+          activity.description,
+          activity.autoTags,
+          activity.projectId,
+          activity.project?.name,
+          String(activity.selected),
+          activity.source,
+        ]);
+      } else {
+        chunk += (first ? "\n" : ",\n") + JSON.stringify(toJsonRow(activity));
+        first = false;
+      }
+    }
+    yield chunk;
+  }
+
+  if (!isCsv) yield "\n]\n";
+}
+
+async function* activityBatches(
+  prisma: PrismaClient,
+  profileId: string,
+  range: { start: Date; end: Date },
+  options: ExportOptions
+): AsyncGenerator<ExportedActivity[]> {
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.activity.findMany({
+      where: {
+        profileId,
+        selected: options.selectedOnly ? true : undefined,
+        timestamp: { gte: range.start, lt: range.end },
+      },
+      include: activityExportInclude,
+      orderBy: [{ timestamp: "asc" }, { id: "asc" }],
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    if (batch.length) yield batch;
+    if (batch.length < EXPORT_BATCH_SIZE) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+function toJsonRow(activity: ExportedActivity) {
+  return {
+    id: activity.id,
+    timestamp: activity.timestamp,
+    duration: activity.duration,
+    rawDuration: activity.rawDuration,
+    app: activity.app,
+    title: activity.title,
+    url: activity.url,
+    description: activity.description,
+    tag: activity.autoTags || null,
+    projectId: activity.projectId,
+    project: activity.project?.name || null,
+    selected: activity.selected,
+    source: activity.source,
+  };
+}
+
+/**
+ * Calendar with one event per active timeline block, built a day at a time
+ * in the profile's timezone
+ */
+async function* icsChunks(
+  prisma: PrismaClient,
+  profileId: string,
+  workspaceId: string,
+  timeZone: string,
+  query: ExportQuery,
+  options: ExportOptions
+): AsyncGenerator<string> {
+  const projects = await prisma.project.findMany({
+    where: { workspaceId },
+    select: { id: true, name: true },
+  });
+  const projectNames = new Map(projects.map((p) => [p.id, p.name]));
+  const stamp = formatIcsDate(new Date());
+
+  yield icsLines([
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Samay//Activity export//EN",
+    "CALSCALE:GREGORIAN",
+  ]);
+
+  for (let day = query.startDate; day <= query.endDate; day = addDays(day, 1)) {
+    const entries = await getTimelineEntries(
+      profileId,
+      getZonedDayRange(day, timeZone),
+      prisma,
+      options
+    );
+    const blocks = buildTimelineBlocks(entries, ICS_GAP_SECONDS).filter(
+      (block) => block.type === "active"
+    );
+
+    const lines: string[] = [];
+    for (const block of blocks) {
+      const project =
+        block.projectId !== null ? projectNames.get(block.projectId) : null;
+      const description = [
+        block.tag ? `Tag: ${block.tag}` : "",
+        project ? `Project: ${project}` : "",
+      ].filter(Boolean);
+
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${block.activityIds[0]}-${block.start.getTime()}@samay`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatIcsDate(block.start)}`,
+        `DTEND:${formatIcsDate(block.end)}`,
+        `SUMMARY:${escapeIcsText(`${block.app} - ${block.title}`)}`,
+        ...(block.tag ? [`CATEGORIES:${escapeIcsText(block.tag)}`] : []),
+        ...(description.length
+          ? [`DESCRIPTION:${escapeIcsText(description.join("\n"))}`]
+          : []),
+        "END:VEVENT"
+      );
+    }
+    if (lines.length) yield icsLines(lines);
+  }
+
+  yield icsLines(["END:VCALENDAR"]);
+}
+
+function icsLines(lines: string[]): string {
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+function formatIcsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold lines longer than 75 octets as RFC 5545 requires
+ */
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
@@ -0,0 +1,12 @@
+import { Readable } from "stream";
+import { z } from "zod";
+import { EXPORT_FORMATS, EXPORT_QUERY_SCHEMA } from "./schema";
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+export type ExportQuery = z.infer<typeof EXPORT_QUERY_SCHEMA>;
+
+export interface ActivityExport {
+  contentType: string;
+  fileName: string;
+  stream: Readable;
+}
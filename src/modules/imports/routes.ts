@@ -0,0 +1,75 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import { Readable } from "stream";
+import { IMPORT_JOB_PARAM_SCHEMA, IMPORT_QUERY_SCHEMA } from "./schema";
+import { getImportJob, getImportJobs, importActivities } from "./service";
+
+const importRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Hand import bodies to the service as streams instead of buffering them
+  fastify.addContentTypeParser(
+    ["application/x-ndjson", "text/csv", "text/plain"],
+    (request, payload, done) => done(null, payload)
+  );
+
+  // Start importing activities from an NDJSON or CSV stream, answering
+  // with the running job while the body is still being read
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/",
+    config: { permission: "activity:write" },
+    schema: {
+      querystring: IMPORT_QUERY_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await importActivities(
+        prisma,
+        request.log,
+        profileId,
+        request.query,
+        request.body as Readable
+      );
+
+      return reply.status(202).send({
+        data: result,
+      });
+    },
+  });
+
+  // Get recent import jobs, including running ones
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/",
+    config: { permission: "activity:read" },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await getImportJobs(prisma, profileId);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Get import job progress and row errors
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:id",
+    config: { permission: "activity:read" },
+    schema: {
+      params: IMPORT_JOB_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await getImportJob(prisma, profileId, request.params.id);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+};
+
+export default importRoutes;
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+export const IMPORT_FORMATS = ["ndjson", "csv"] as const;
+
+export const IMPORT_PRESETS = [
+  "samay",
+  "activitywatch",
+  "rescuetime",
+  "toggl",
+] as const;
+
+export const IMPORT_QUERY_SCHEMA = z.object({
+  format: z.enum(IMPORT_FORMATS).default("ndjson"),
+  // Field mapping of the tracker the export comes from
+  preset: z.enum(IMPORT_PRESETS).default("samay"),
+});
+
+export const IMPORT_JOB_PARAM_SCHEMA = z.object({
+  id: z.string().min(1, "Import job ID is required"),
+});
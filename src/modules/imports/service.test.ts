@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+import { PassThrough } from "stream";
+import { PrismaClient } from "@prisma/client";
+import { FastifyBaseLogger } from "fastify";
+import { importActivities } from "./service";
+import { storeEvents } from "../activities/service";
+
+vi.mock("../activities/service", () => ({
+  storeEvents: vi.fn(async (events: unknown[]) => ({
+    accepted: events.length,
+    deduplicated: 0,
+  })),
+}));
+
+const log = { error: vi.fn() } as unknown as FastifyBaseLogger;
+
+function row(title: string) {
+  return `${JSON.stringify({
+    timestamp: "2026-10-19T09:00:00.000Z",
+    duration: 60,
+    data: { app: "Code", title, url: "" },
+  })}\n`;
+}
+
+function createPrisma() {
+  const job = {
+    id: "job-1",
+    profileId: "profile-1",
+    format: "ndjson",
+    preset: "samay",
+    status: "RUNNING",
+    totalRows: 0,
+    importedRows: 0,
+    deduplicatedRows: 0,
+    failedRows: 0,
+    errors: [],
+    failureReason: null,
+    createdAt: new Date(),
+    finishedAt: null,
+  };
+  return {
+    profile: {
+      findUniqueOrThrow: vi.fn().mockResolvedValue({
+        timezone: null,
+        workspace: { timezone: "UTC" },
+      }),
+    },
+    importJob: {
+      create: vi.fn().mockResolvedValue(job),
+      update: vi.fn(async ({ data }) => ({ ...job, ...data })),
+    },
+  };
+}
+
+describe("importActivities", () => {
+  it("returns the running job before the body is read", async () => {
+    const prisma = createPrisma();
+    const body = new PassThrough();
+
+    const job = await importActivities(
+      prisma as unknown as PrismaClient,
+      log,
+      "profile-1",
+      { format: "ndjson", preset: "samay" },
+      body
+    );
+
+    expect(job.status).toBe("RUNNING");
+    expect(storeEvents).not.toHaveBeenCalled();
+
+    body.end(row("service.ts"));
+
+    await vi.waitFor(() =>
+      expect(prisma.importJob.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ status: "COMPLETED" }),
+        })
+      )
+    );
+    expect(storeEvents).toHaveBeenCalledOnce();
+  });
+
+  it("fails the job when the upload is cut off", async () => {
+    const prisma = createPrisma();
+    const body = new PassThrough();
+
+    await importActivities(
+      prisma as unknown as PrismaClient,
+      log,
+      "profile-1",
+      { format: "ndjson", preset: "samay" },
+      body
+    );
+    body.write(row("service.ts"));
+    body.destroy();
+
+    await vi.waitFor(() =>
+      expect(prisma.importJob.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: "FAILED",
+            failureReason: "The upload was interrupted before it finished",
+          }),
+        })
+      )
+    );
+    expect(prisma.importJob.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: "COMPLETED" }),
+      })
+    );
+  });
+});
@@ -0,0 +1,426 @@
+import { ImportJob, PrismaClient } from "@prisma/client";
+import { FastifyBaseLogger } from "fastify";
+import { Readable } from "stream";
+import { createInterface } from "readline";
+import { NotFoundError, ValidationError } from "../../plugins/error/plugin";
+import { getZonedInstant, resolveTimeZone } from "../../plugins/time/timezone";
+import { INGEST_EVENT_SCHEMA } from "../activities/schema";
+import { storeEvents } from "../activities/service";
+import { IngestEventInput } from "../activities/types";
+import {
+  ImportFormat,
+  ImportJobResponse,
+  ImportPreset,
+  ImportQuery,
+  ImportRowError,
+} from "./types";
+
+const CHUNK_SIZE = 500;
+const MAX_ROW_ERRORS = 100;
+const MAX_IMPORT_ROWS = parseInt(process.env.IMPORT_MAX_ROWS || "1000000");
+
+type ImportRecord = Record<string, unknown>;
+
+type ParsedRecord =
+  { row: number; record: ImportRecord } | { row: number; error: string };
+
+/**
+ * Map a record of a tracker's export to our ingestion format. Exports
+ * without offsets are read in the profile's timezone.
+ */
+const PRESETS: Record<
+  ImportPreset,
+  (record: ImportRecord, timeZone: string) => unknown
+> = {
+  samay: (record) =>
+    isObject(record.data)
+      ? record
+      : {
+          eventId: field(record, "eventId") || undefined,
+          timestamp: field(record, "timestamp"),
+          duration: Number(field(record, "duration")),
+          data: {
+            app: field(record, "app"),
+            title: field(record, "title"),
+            url: field(record, "url"),
+          },
+        },
+  activitywatch: (record) => {
+    const data = isObject(record.data) ? record.data : {};
+    return {
+      timestamp: field(record, "timestamp"),
+      duration: Math.round(Number(field(record, "duration"))),
+      data: {
+        app: field(data, "app") || field(record, "data.app", "app"),
+        title: field(data, "title") || field(record, "data.title", "title"),
+        url: field(data, "url") || field(record, "data.url", "url"),
+      },
+    };
+  },
+  rescuetime: (record, timeZone) => ({
+    timestamp: localTimestamp(field(record, "Date"), timeZone),
+    duration: Number(field(record, "Time Spent (seconds)")),
+    data: {
+      app: field(record, "Activity"),
+      title: field(record, "Category") || field(record, "Activity"),
+      url: "",
+    },
+  }),
+  toggl: (record, timeZone) => ({
+    timestamp: localTimestamp(
+      `${field(record, "Start date")}T${field(record, "Start time")}`,
+      timeZone
+    ),
+    duration: parseClockDuration(field(record, "Duration")),
+    data: {
+      app: "Toggl Track",
+      title: field(record, "Description") || field(record, "Project"),
+      url: "",
+    },
+  }),
+};
+
+/**
+ * Start importing activities from an NDJSON or CSV stream and return the
+ * running job right away. The stream is consumed in the background, so
+ * progress is followed through the job instead of a long-held request.
+ */
+export async function importActivities(
+  prisma: PrismaClient,
+  log: FastifyBaseLogger,
+  profileId: string,
+  query: ImportQuery,
+  stream: Readable
+): Promise<ImportJobResponse> {
+  const { format, preset } = query;
+  const profile = await prisma.profile.findUniqueOrThrow({
+    where: { id: profileId },
+    select: { timezone: true, workspace: { select: { timezone: true } } },
+  });
+  const timeZone = resolveTimeZone(
+    profile.timezone,
+    profile.workspace.timezone
+  );
+
+  const job = await prisma.importJob.create({
+    data: { profileId, format, preset },
+  });
+
+  // runImport marks the job failed itself, this only runs when even that
+  // update didn't go through
+  runImport(prisma, job, query, timeZone, stream).catch(async (error) => {
+    log.error({ err: error, importJobId: job.id }, "Import job failed");
+    await prisma.importJob
+      .update({
+        where: { id: job.id },
+        data: {
+          status: "FAILED",
+          failureReason: "Import could not be finished",
+          finishedAt: new Date(),
+        },
+      })
+      .catch((updateError) =>
+        log.error(
+          { err: updateError, importJobId: job.id },
+          "Import job could not be marked as failed"
+        )
+      );
+  });
+
+  return toImportJobResponse(job);
+}
+
+/**
+ * Read the stream into the job, inserting in chunks and tracking progress.
+ * Rows failing validation are counted and the first of them kept on the
+ * job, the rest of the import goes on.
+ */
+async function runImport(
+  prisma: PrismaClient,
+  job: ImportJob,
+  { format, preset }: ImportQuery,
+  timeZone: string,
+  stream: Readable
+): Promise<ImportJobResponse> {
+  const { profileId } = job;
+  const progress = {
+    totalRows: 0,
+    importedRows: 0,
+    deduplicatedRows: 0,
+    failedRows: 0,
+    errors: [] as ImportRowError[],
+  };
+  let chunk: IngestEventInput[] = [];
+
+  const fail = (row: number, message: string) => {
+    progress.failedRows++;
+    if (progress.errors.length < MAX_ROW_ERRORS) {
+      progress.errors.push({ row, message });
+    }
+  };
+
+  const flush = async () => {
+    if (chunk.length) {
+      const result = await storeEvents(chunk, profileId, prisma);
+      progress.importedRows += result.accepted;
+      progress.deduplicatedRows += result.deduplicated;
+      chunk = [];
+    }
+    await prisma.importJob.update({ where: { id: job.id }, data: progress });
+  };
+
+  try {
+    for await (const parsed of readRecords(stream, format)) {
+      progress.totalRows++;
+      if (progress.totalRows > MAX_IMPORT_ROWS) {
+        throw new ValidationError(
+          `Imports are limited to ${MAX_IMPORT_ROWS} rows`
+        );
+      }
+
+      if ("error" in parsed) {
+        fail(parsed.row, parsed.error);
+        continue;
+      }
+
+      const event = INGEST_EVENT_SCHEMA.safeParse(
+        PRESETS[preset](parsed.record, timeZone)
+      );
+      if (!event.success) {
+        fail(
+          parsed.row,
+          event.error.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join("; ")
+        );
+        continue;
+      }
+
+      chunk.push(event.data);
+      if (chunk.length >= CHUNK_SIZE) await flush();
+    }
+
+    await flush();
+    const completed = await prisma.importJob.update({
+      where: { id: job.id },
+      data: { status: "COMPLETED", finishedAt: new Date() },
+    });
+    return toImportJobResponse(completed);
+  } catch (error) {
+    const failed = await prisma.importJob.update({
+      where: { id: job.id },
+      data: {
+        ...progress,
+        status: "FAILED",
+        failureReason: error instanceof Error ? error.message : "Import failed",
+        finishedAt: new Date(),
+      },
+    });
+    return toImportJobResponse(failed);
+  }
+}
+
+/**
+ * Get the profile's recent import jobs, newest first
+ */
+export async function getImportJobs(
+  prisma: PrismaClient,
+  profileId: string
+): Promise<ImportJobResponse[]> {
+  const jobs = await prisma.importJob.findMany({
+    where: { profileId },
+    orderBy: { createdAt: "desc" },
+    take: 20,
+  });
+
+  return jobs.map(toImportJobResponse);
+}
+
+/**
+ * Get an import job of the profile
+ */
+export async function getImportJob(
+  prisma: PrismaClient,
+  profileId: string,
+  id: string
+): Promise<ImportJobResponse> {
+  const job = await prisma.importJob.findFirst({ where: { id, profileId } });
+
+  if (!job) {
+    throw new NotFoundError("Import job not found");
+  }
+
+  return toImportJobResponse(job);
+}
+
+/**
+ * Read records line by line, CSV rows are keyed by the header row. Throws
+ * when the stream closes before its end, e.g. an aborted upload.
+ */
+async function* readRecords(
+  stream: Readable,
+  format: ImportFormat
+): AsyncGenerator<ParsedRecord> {
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+  let interrupted = false;
+
+  // readline never ends its iterator for a stream destroyed midway
+  const interrupt = () => {
+    if (stream.readableEnded) return;
+    interrupted = true;
+    lines.close();
+  };
+  stream.on("aborted", interrupt);
+  stream.on("error", interrupt);
+  stream.on("close", interrupt);
+
+  try {
+    yield* parseLines(lines, format);
+  } finally {
+    stream.off("aborted", interrupt);
+    stream.off("error", interrupt);
+    stream.off("close", interrupt);
+  }
+
+  if (interrupted) {
+    throw new Error("The upload was interrupted before it finished");
+  }
+}
+
+async function* parseLines(
+  lines: AsyncIterable<string>,
+  format: ImportFormat
+): AsyncGenerator<ParsedRecord> {
+  let row = 0;
+
+  if (format === "ndjson") {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      row++;
+
+      try {
+        const record = JSON.parse(line);
+        yield isObject(record)
+          ? { row, record }
+          : { row, error: "Line is not a JSON object" };
+      } catch {
+        yield { row, error: "Line is not valid JSON" };
+      }
+    }
+    return;
+  }
+
+  let header: string[] | undefined;
+  let pending = "";
+
+  for await (const line of lines) {
+    // Quoted fields may span lines
+    pending = pending ? `${pending}\n${line}` : line;
+    if (countQuotes(pending) % 2 === 1) continue;
+
+    const values = parseCsvLine(pending);
+    pending = "";
+    if (values.length === 1 && !values[0]) continue;
+
+    if (!header) {
+      header = values.map((value) => value.replace(/^\uFEFF/, ""));
+      continue;
+    }
+
+    row++;
+    const record: ImportRecord = {};
+    header.forEach((name, index) => (record[name] = values[index] ?? ""));
+    yield { row, record };
+  }
+
+  if (pending) {
+    yield { row: row + 1, error: "Unterminated quoted field" };
+  }
+}
+
+function parseCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let value = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      values.push(value);
+      value = "";
+    } else {
+      value += char;
+    }
+  }
+
+  values.push(value);
+  return values;
+}
+
+function countQuotes(value: string): number {
+  return value.split('"').length - 1;
+}
+
+function isObject(value: unknown): value is ImportRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * First non-empty value of the given columns as a string
+ */
+function field(record: ImportRecord, ...names: string[]): string {
+  for (const name of names) {
+    const value = record[name];
+    if (typeof value === "string" && value) return value;
+    if (typeof value === "number") return String(value);
+  }
+  return "";
+}
+
+/**
+ * Read a wall-clock date-time like "2025-01-31 09:30:00" in a timezone.
+ * Values that don't parse are passed on to fail validation.
+ */
+function localTimestamp(value: string, timeZone: string): string {
+  const instant = getZonedInstant(value.trim().replace(" ", "T"), timeZone);
+  return isNaN(instant.getTime()) ? value : instant.toISOString();
+}
+
+/**
+ * Parse a duration like "01:30:00" into seconds
+ */
+function parseClockDuration(value: string): number {
+  const parts = value.split(":").map(Number);
+  if (parts.length !== 3) return NaN;
+
+  const [hours, minutes, seconds] = parts;
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+function toImportJobResponse(job: ImportJob): ImportJobResponse {
+  return {
+    id: job.id,
+    format: job.format,
+    preset: job.preset,
+    status: job.status,
+    totalRows: job.totalRows,
+    importedRows: job.importedRows,
+    deduplicatedRows: job.deduplicatedRows,
+    failedRows: job.failedRows,
+    errors: job.errors as ImportRowError[],
+    failureReason: job.failureReason,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+  };
+}
@@ -0,0 +1,30 @@
+import { ImportStatus } from "@prisma/client";
+import { z } from "zod";
+import { IMPORT_FORMATS, IMPORT_PRESETS, IMPORT_QUERY_SCHEMA } from "./schema";
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+export type ImportPreset = (typeof IMPORT_PRESETS)[number];
+export type ImportQuery = z.infer<typeof IMPORT_QUERY_SCHEMA>;
+
+// A type alias so the errors can be stored as JSON on the job
+export type ImportRowError = {
+  // 1-based record number, CSV headers not counted
+  row: number;
+  message: string;
+};
+
+// Import job interface
+export interface ImportJobResponse {
+  id: string;
+  format: string;
+  preset: string;
+  status: ImportStatus;
+  totalRows: number;
+  importedRows: number;
+  deduplicatedRows: number;
+  failedRows: number;
+  errors: ImportRowError[];
+  failureReason: string | null;
+  createdAt: Date;
+  finishedAt: Date | null;
+}
@@ -7,6 +7,7 @@ export default async function insightRoutes(fastify: FastifyInstance) {
     "/",
     {
       schema: getDailyInsightSchema,
+      config: { permission: "insight:read" },
     },
     async (request, reply) => {
       const { date } = request.query as { date?: string };
@@ -2,7 +2,11 @@ import { z } from "zod";
 
 export const getDailyInsightSchema = {
   querystring: z.object({
-    date: z.string().optional().describe("Date in ISO format (YYYY-MM-DD)"),
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}/, "Date must be in YYYY-MM-DD format")
+      .optional()
+      .describe("Date in ISO format (YYYY-MM-DD)"),
   }),
   response: {
     200: z.object({
@@ -0,0 +1,42 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import { OIDC_CALLBACK_QUERY_SCHEMA } from "./schema";
+import { handleCallback, startAuthorization } from "./service";
+
+const oidcRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Get the provider authorization URL (authorization code + PKCE)
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/authorize",
+    config: { permission: "public" },
+    handler: async (request, reply) => {
+      const result = await startAuthorization();
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Complete the login with the code returned by the provider
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/callback",
+    config: { permission: "public" },
+    schema: {
+      querystring: OIDC_CALLBACK_QUERY_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const input = request.query;
+      const result = await handleCallback(input, prisma);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+};
+
+export default oidcRoutes;
@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const OIDC_CALLBACK_QUERY_SCHEMA = z.object({
+  code: z.string().min(1, "Authorization code is required"),
+  state: z.string().min(1, "State is required"),
+  loginToken: z.string().min(1, "Login token is required"),
+});
@@ -0,0 +1,252 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { createHash, generateKeyPairSync, KeyObject } from "crypto";
+import jwt from "jsonwebtoken";
+import { PrismaClient } from "@prisma/client";
+import { handleCallback, startAuthorization } from "./service";
+
+const CLIENT_ID = "samay";
+
+interface IssuedCode {
+  codeChallenge: string;
+  claims: Record<string, unknown>;
+}
+
+/**
+ * Minimal OpenID provider: discovery, JWKS and an authorization code
+ * token endpoint checking the PKCE verifier
+ */
+class MockIssuer {
+  private server: Server = createServer((req, res) => this.handle(req, res));
+  private privateKey: KeyObject;
+  private publicKey: KeyObject;
+  private codes = new Map<string, IssuedCode>();
+  issuer = "";
+
+  constructor() {
+    const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+    });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+  }
+
+  async start() {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  stop() {
+    return new Promise((resolve) => this.server.close(resolve));
+  }
+
+  // Stand in for the user signing in at the provider
+  authorize(authorizationUrl: string, claims: Record<string, unknown>) {
+    const params = new URL(authorizationUrl).searchParams;
+    const code = `code-${this.codes.size}`;
+    this.codes.set(code, {
+      codeChallenge: params.get("code_challenge") || "",
+      claims: { nonce: params.get("nonce"), ...claims },
+    });
+    return { code, state: params.get("state") || "" };
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse) {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === "/.well-known/openid-configuration") {
+      return send(200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+    }
+
+    if (req.url === "/jwks") {
+      const jwk = this.publicKey.export({ format: "jwk" });
+      return send(200, { keys: [{ ...jwk, kid: "key-1", alg: "RS256" }] });
+    }
+
+    if (req.url === "/token" && req.method === "POST") {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const params = new URLSearchParams(body);
+        const issued = this.codes.get(params.get("code") || "");
+        const challenge = createHash("sha256")
+          .update(params.get("code_verifier") || "")
+          .digest("base64url");
+
+        if (!issued || issued.codeChallenge !== challenge) {
+          return send(400, { error: "invalid_grant" });
+        }
+
+        this.codes.delete(params.get("code") || "");
+        send(200, {
+          id_token: jwt.sign(issued.claims, this.privateKey, {
+            algorithm: "RS256",
+            keyid: "key-1",
+            issuer: this.issuer,
+            audience: CLIENT_ID,
+            expiresIn: 300,
+          }),
+        });
+      });
+      return;
+    }
+
+    send(404, {});
+  }
+}
+
+const issuer = new MockIssuer();
+
+const USER = {
+  id: "user-1",
+  email: "jane@acme.com",
+  name: "Jane",
+  totpEnabledAt: null as Date | null,
+};
+
+function createPrisma(
+  options: { linked?: boolean; workspace?: Record<string, unknown> } = {}
+) {
+  const prisma = {
+    userIdentity: {
+      findUnique: vi
+        .fn()
+        .mockResolvedValue(options.linked ? { user: USER } : null),
+      create: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      create: vi.fn().mockResolvedValue(USER),
+    },
+    workspace: {
+      findFirst: vi.fn(async ({ where }) =>
+        options.workspace &&
+        where.ssoDomainVerifiedAt?.not === null &&
+        options.workspace.ssoDomainVerifiedAt
+          ? options.workspace
+          : null
+      ),
+    },
+    workspaceRole: {
+      findUniqueOrThrow: vi.fn().mockResolvedValue({ id: "role-member" }),
+    },
+    profile: {
+      create: vi.fn(),
+      findFirstOrThrow: vi.fn().mockResolvedValue({
+        id: "profile-1",
+        workspaceId: "workspace-1",
+        workspace: { name: "Acme" },
+        role: { name: "Member" },
+        roleId: "role-member",
+        name: "Jane",
+      }),
+    },
+    refreshToken: { create: vi.fn().mockResolvedValue({ id: "refresh-1" }) },
+    $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(prisma)),
+  };
+  return prisma;
+}
+
+async function signIn(
+  prisma: ReturnType<typeof createPrisma>,
+  claims: Record<string, unknown>,
+  loginToken?: string
+) {
+  const authorization = await startAuthorization();
+  const { code, state } = issuer.authorize(
+    authorization.authorizationUrl,
+    claims
+  );
+
+  return handleCallback(
+    { code, state, loginToken: loginToken ?? authorization.loginToken },
+    prisma as unknown as PrismaClient
+  );
+}
+
+describe("OIDC login against a mock issuer", () => {
+  beforeAll(async () => {
+    await issuer.start();
+    process.env.OIDC_ISSUER = issuer.issuer;
+    process.env.OIDC_CLIENT_ID = CLIENT_ID;
+    process.env.OIDC_REDIRECT_URI = "http://localhost:5173/auth/oidc/callback";
+  });
+
+  afterAll(async () => {
+    await issuer.stop();
+  });
+
+  beforeEach(() => {
+    USER.totpEnabledAt = null;
+  });
+
+  it("signs in the user linked to the identity", async () => {
+    const prisma = createPrisma({ linked: true });
+
+    const result = await signIn(prisma, { sub: "sub-1" });
+
+    expect(result).toMatchObject({ user: { userId: "user-1" } });
+    expect(prisma.refreshToken.create).toHaveBeenCalled();
+  });
+
+  it("refuses a callback from a client that did not start the login", async () => {
+    const prisma = createPrisma({ linked: true });
+
+    await expect(
+      signIn(prisma, { sub: "sub-1" }, "someone-elses-login-token")
+    ).rejects.toMatchObject({ statusCode: 401 });
+    expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it("still asks for TOTP when the provider reports MFA", async () => {
+    USER.totpEnabledAt = new Date();
+    const prisma = createPrisma({ linked: true });
+
+    const result = await signIn(prisma, { sub: "sub-1", amr: ["mfa"] });
+
+    expect(result).toMatchObject({ twoFactorRequired: true });
+  });
+
+  it("auto-provisions into a workspace with a verified domain", async () => {
+    const prisma = createPrisma({
+      workspace: { id: "workspace-1", ssoDomainVerifiedAt: new Date() },
+    });
+
+    await signIn(prisma, {
+      sub: "sub-2",
+      email: "jane@acme.com",
+      email_verified: true,
+    });
+
+    expect(prisma.profile.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ workspaceId: "workspace-1" }),
+    });
+  });
+
+  it("ignores a workspace whose domain is not verified", async () => {
+    const prisma = createPrisma({
+      workspace: { id: "workspace-1", ssoDomainVerifiedAt: null },
+    });
+
+    await expect(
+      signIn(prisma, {
+        sub: "sub-2",
+        email: "jane@acme.com",
+        email_verified: true,
+      })
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(prisma.profile.create).not.toHaveBeenCalled();
+  });
+});
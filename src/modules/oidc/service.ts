@@ -0,0 +1,306 @@
+import { PrismaClient, User } from "@prisma/client";
+import {
+  createHash,
+  createPublicKey,
+  JsonWebKey,
+  randomBytes,
+  timingSafeEqual,
+} from "crypto";
+import jwt from "jsonwebtoken";
+import NodeCache from "node-cache";
+import {
+  AuthorizationUrlResponse,
+  OidcCallbackInput,
+  OidcConfig,
+  OidcDiscoveryDocument,
+  OidcIdTokenClaims,
+  PendingAuthorization,
+} from "./types";
+import { LoginResponse } from "../auth/types";
+import { completeLogin } from "../auth/service";
+import { getBuiltInRole } from "../roles/service";
+import {
+  AppError,
+  AuthenticationError,
+  AuthorizationError,
+} from "../../plugins/error/plugin";
+
+// Discovery documents and JWKS are cached for an hour
+const metadataCache = new NodeCache({ stdTTL: 3600 });
+// Pending authorizations expire after 10 minutes
+const pendingCache = new NodeCache({ stdTTL: 600 });
+
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "ES256",
+  "ES384",
+];
+
+/**
+ * Read the provider configuration from the environment
+ */
+function getOidcConfig(): OidcConfig {
+  const { OIDC_ISSUER, OIDC_CLIENT_ID, OIDC_REDIRECT_URI } = process.env;
+
+  if (!OIDC_ISSUER || !OIDC_CLIENT_ID || !OIDC_REDIRECT_URI) {
+    throw new AppError(
+      "Single sign-on is not configured",
+      503,
+      "OIDC_NOT_CONFIGURED"
+    );
+  }
+
+  return {
+    issuer: OIDC_ISSUER.replace(/\/$/, ""),
+    clientId: OIDC_CLIENT_ID,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: OIDC_REDIRECT_URI,
+    scopes: process.env.OIDC_SCOPES || "openid email profile",
+  };
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, init).catch(() => null);
+
+  if (!response || !response.ok) {
+    throw new AppError(
+      "Identity provider request failed",
+      502,
+      "OIDC_PROVIDER_ERROR"
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Fetch the provider metadata from its discovery endpoint
+ */
+async function getDiscoveryDocument(
+  issuer: string
+): Promise<OidcDiscoveryDocument> {
+  const cacheKey = `discovery:${issuer}`;
+  const cached = metadataCache.get<OidcDiscoveryDocument>(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const document = await fetchJson<OidcDiscoveryDocument>(
+    `${issuer}/.well-known/openid-configuration`
+  );
+  metadataCache.set(cacheKey, document);
+
+  return document;
+}
+
+/**
+ * Resolve the public key that signed an ID token
+ */
+async function getSigningKey(jwksUri: string, kid?: string) {
+  const cacheKey = `jwks:${jwksUri}`;
+  let keys = metadataCache.get<JsonWebKey[]>(cacheKey);
+
+  // Refetch once on unknown kid to pick up key rotation
+  if (!keys || !keys.some((key) => key.kid === kid)) {
+    const jwks = await fetchJson<{ keys: JsonWebKey[] }>(jwksUri);
+    keys = jwks.keys;
+    metadataCache.set(cacheKey, keys);
+  }
+
+  const jwk = kid ? keys.find((key) => key.kid === kid) : keys[0];
+  if (!jwk) {
+    throw new AuthenticationError("Unknown ID token signing key");
+  }
+
+  return createPublicKey({ key: jwk, format: "jwk" });
+}
+
+const base64Url = (buffer: Buffer) => buffer.toString("base64url");
+
+const sha256 = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * Build the authorization URL for the authorization code + PKCE flow. The
+ * returned login token stays with the client that started the login, so
+ * the code and state from the redirect alone can't complete it.
+ */
+export async function startAuthorization(): Promise<AuthorizationUrlResponse> {
+  const config = getOidcConfig();
+  const discovery = await getDiscoveryDocument(config.issuer);
+
+  const state = base64Url(randomBytes(32));
+  const nonce = base64Url(randomBytes(32));
+  const codeVerifier = base64Url(randomBytes(32));
+  const codeChallenge = base64Url(sha256(codeVerifier));
+  const loginToken = base64Url(randomBytes(32));
+
+  pendingCache.set<PendingAuthorization>(state, {
+    codeVerifier,
+    nonce,
+    loginTokenHash: sha256(loginToken).toString("hex"),
+  });
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  });
+
+  return {
+    authorizationUrl: `${discovery.authorization_endpoint}?${params.toString()}`,
+    loginToken,
+  };
+}
+
+/**
+ * Exchange the authorization code, verify the ID token and sign the user in
+ */
+export async function handleCallback(
+  input: OidcCallbackInput,
+  prisma: PrismaClient
+): Promise<LoginResponse> {
+  const config = getOidcConfig();
+  const pending = pendingCache.get<PendingAuthorization>(input.state);
+
+  if (!pending) {
+    throw new AuthenticationError("Invalid or expired login state");
+  }
+
+  // Only the client that started the login may redeem it
+  if (
+    !timingSafeEqual(
+      sha256(input.loginToken),
+      Buffer.from(pending.loginTokenHash, "hex")
+    )
+  ) {
+    throw new AuthenticationError("Login was started by another client");
+  }
+
+  pendingCache.del(input.state);
+
+  const discovery = await getDiscoveryDocument(config.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: input.code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: pending.codeVerifier,
+  });
+  if (config.clientSecret) {
+    body.set("client_secret", config.clientSecret);
+  }
+
+  const tokenResponse = await fetchJson<{ id_token?: string }>(
+    discovery.token_endpoint,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body,
+    }
+  );
+
+  if (!tokenResponse.id_token) {
+    throw new AuthenticationError("Identity provider returned no ID token");
+  }
+
+  const decoded = jwt.decode(tokenResponse.id_token, { complete: true });
+  const key = await getSigningKey(discovery.jwks_uri, decoded?.header.kid);
+  const claims = jwt.verify(tokenResponse.id_token, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    issuer: discovery.issuer,
+    audience: config.clientId,
+  }) as OidcIdTokenClaims;
+
+  if (claims.nonce !== pending.nonce) {
+    throw new AuthenticationError("ID token nonce mismatch");
+  }
+
+  const user = await resolveUser(discovery.issuer, claims, prisma);
+
+  // The provider's own MFA doesn't replace the TOTP enabled here
+  return completeLogin(user, prisma, false);
+}
+
+/**
+ * Find the user linked to an identity, linking by verified email or
+ * auto-provisioning into a workspace that verified the email domain
+ */
+async function resolveUser(
+  issuer: string,
+  claims: OidcIdTokenClaims,
+  prisma: PrismaClient
+): Promise<User> {
+  const identity = await prisma.userIdentity.findUnique({
+    where: { issuer_subject: { issuer, subject: claims.sub } },
+    include: { user: true },
+  });
+
+  if (identity) {
+    return identity.user;
+  }
+
+  if (!claims.email || claims.email_verified !== true) {
+    throw new AuthorizationError(
+      "Identity provider did not return a verified email"
+    );
+  }
+
+  const email = claims.email.toLowerCase();
+  const domain = email.split("@")[1];
+
+  const [existingUser, workspace] = await Promise.all([
+    prisma.user.findUnique({
+      where: { email },
+      include: { profiles: true },
+    }),
+    prisma.workspace.findFirst({
+      where: {
+        ssoDomain: domain,
+        ssoDomainVerifiedAt: { not: null },
+        ssoAutoProvision: true,
+      },
+    }),
+  ]);
+
+  if (!existingUser && !workspace) {
+    throw new AuthorizationError("No account exists for this identity");
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const user =
+      existingUser ||
+      (await tx.user.create({
+        data: { email, name: claims.name || email },
+      }));
+    const profiles = existingUser?.profiles || [];
+
+    if (workspace && !profiles.some((p) => p.workspaceId === workspace.id)) {
+      const memberRole = await getBuiltInRole(tx, workspace.id, "USER");
+      await tx.profile.create({
+        data: {
+          userId: user.id,
+          workspaceId: workspace.id,
+          name: user.name || claims.name || email,
+          roleId: memberRole.id,
+          isVerified: true,
+          isDefault: profiles.length === 0,
+        },
+      });
+    }
+
+    await tx.userIdentity.create({
+      data: { userId: user.id, issuer, subject: claims.sub, email },
+    });
+
+    return user;
+  });
+}
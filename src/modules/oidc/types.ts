@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { OIDC_CALLBACK_QUERY_SCHEMA } from "./schema";
+
+export type OidcCallbackInput = z.infer<typeof OIDC_CALLBACK_QUERY_SCHEMA>;
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+// Subset of the OpenID provider metadata we rely on
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// Authorization request kept between /authorize and /callback
+export interface PendingAuthorization {
+  codeVerifier: string;
+  nonce: string;
+  // SHA-256 of the login token handed to the client
+  loginTokenHash: string;
+}
+
+export interface OidcIdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  nonce?: string;
+}
+
+export interface AuthorizationUrlResponse {
+  authorizationUrl: string;
+  // Kept by the client and sent back to /callback
+  loginToken: string;
+}
@@ -3,9 +3,15 @@ import { ZodTypeProvider } from "fastify-type-provider-zod";
 import {
   CREATE_PROJECT_SCHEMA,
   UPDATE_PROJECT_SCHEMA,
+  PROJECTS_QUERY_SCHEMA,
   PROJECT_ID_PARAM_SCHEMA,
   ADD_USERS_TO_PROJECT_SCHEMA,
   DELETE_USERS_FROM_PROJECT_PARAM_SCHEMA,
+  CREATE_PROJECT_RULE_SCHEMA,
+  UPDATE_PROJECT_RULE_SCHEMA,
+  PROJECT_RULE_PARAM_SCHEMA,
+  TASK_SCHEMA,
+  TASK_PARAM_SCHEMA,
 } from "./schema";
 import {
   createProject,
@@ -13,9 +19,20 @@ import {
   getProject,
   updateProject,
   deleteProject,
+  restoreProject,
+  setProjectArchived,
   addUsersToProject,
   deleteUsersFromProject,
+  getProjectRules,
+  createProjectRule,
+  updateProjectRule,
+  deleteProjectRule,
+  getTasks,
+  createTask,
+  updateTask,
+  deleteTask,
 } from "./service";
+import { hasPermission } from "../../plugins/auth/permissions";
 
 const projectRoutes: FastifyPluginAsync = async (fastify) => {
   const prisma = fastify.prisma;
@@ -24,6 +41,7 @@ const projectRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/",
+    config: { permission: "project:write" },
     schema: {
       body: CREATE_PROJECT_SCHEMA,
     },
@@ -43,17 +61,18 @@ const projectRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/",
+    config: { permission: "project:read" },
+    schema: {
+      querystring: PROJECTS_QUERY_SCHEMA,
+    },
     handler: async (request, reply) => {
-      const {
-        profileId = "",
-        role = "",
-        workspaceId = "",
-      } = request.user || {};
+      const { profileId = "", workspaceId = "" } = request.user || {};
       const result = await getProjects(
         prisma,
         profileId,
         workspaceId,
-        role == "ADMIN"
+        hasPermission(request.permissions || [], "project:write"),
+        request.query
       );
 
       return reply.send({
@@ -66,15 +85,12 @@ const projectRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/:id",
+    config: { permission: "project:read" },
     schema: {
       params: PROJECT_ID_PARAM_SCHEMA,
     },
     handler: async (request, reply) => {
-      const {
-        profileId = "",
-        role = "",
-        workspaceId = "",
-      } = request.user || {};
+      const { profileId = "", workspaceId = "" } = request.user || {};
       const { id } = request.params;
       const projectId = parseInt(id);
 
@@ -82,7 +98,7 @@ const projectRoutes: FastifyPluginAsync = async (fastify) => {
         prisma,
         profileId,
         workspaceId,
-        role == "ADMIN",
+        hasPermission(request.permissions || [], "project:write"),
         projectId
       );
 
@@ -96,6 +112,7 @@ const projectRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "PUT",
     url: "/:id",
+    config: { permission: "project:write" },
     schema: {
       params: PROJECT_ID_PARAM_SCHEMA,
       body: UPDATE_PROJECT_SCHEMA,
@@ -119,6 +136,7 @@ const projectRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "DELETE",
     url: "/:id",
+    config: { permission: "project:write" },
     schema: {
       params: PROJECT_ID_PARAM_SCHEMA,
     },
@@ -134,10 +152,81 @@ const projectRoutes: FastifyPluginAsync = async (fastify) => {
     },
   });
 
+  // Restore deleted project
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/:id/restore",
+    config: { permission: "project:write" },
+    schema: {
+      params: PROJECT_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const projectId = parseInt(request.params.id);
+
+      const result = await restoreProject(prisma, projectId, workspaceId);
+      return reply.send({
+        data: result,
+        message: "Project restored successfully",
+      });
+    },
+  });
+
+  // Archive project
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/:id/archive",
+    config: { permission: "project:write" },
+    schema: {
+      params: PROJECT_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const projectId = parseInt(request.params.id);
+
+      const result = await setProjectArchived(
+        prisma,
+        projectId,
+        workspaceId,
+        true
+      );
+      return reply.send({
+        data: result,
+        message: "Project archived successfully",
+      });
+    },
+  });
+
+  // Unarchive project
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/:id/unarchive",
+    config: { permission: "project:write" },
+    schema: {
+      params: PROJECT_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const projectId = parseInt(request.params.id);
+
+      const result = await setProjectArchived(
+        prisma,
+        projectId,
+        workspaceId,
+        false
+      );
+      return reply.send({
+        data: result,
+        message: "Project unarchived successfully",
+      });
+    },
+  });
+
   // Add users to project
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/:id/users",
+    config: { permission: "project:write" },
     schema: {
       params: PROJECT_ID_PARAM_SCHEMA,
       body: ADD_USERS_TO_PROJECT_SCHEMA,
@@ -159,6 +248,7 @@ const projectRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "DELETE",
     url: "/:id/users/:profileId",
+    config: { permission: "project:write" },
     schema: {
       params: DELETE_USERS_FROM_PROJECT_PARAM_SCHEMA,
     },
@@ -173,6 +263,188 @@ const projectRoutes: FastifyPluginAsync = async (fastify) => {
       });
     },
   });
+
+  // Get project rules
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:id/rules",
+    config: { permission: "project:read" },
+    schema: {
+      params: PROJECT_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const projectId = parseInt(request.params.id);
+      const result = await getProjectRules(prisma, projectId, workspaceId);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Create project rule
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/:id/rules",
+    config: { permission: "project:write" },
+    schema: {
+      params: PROJECT_ID_PARAM_SCHEMA,
+      body: CREATE_PROJECT_RULE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const projectId = parseInt(request.params.id);
+      const result = await createProjectRule(
+        prisma,
+        projectId,
+        workspaceId,
+        request.body
+      );
+
+      return reply.status(201).send({
+        data: result,
+        message: "Project rule created successfully",
+      });
+    },
+  });
+
+  // Update project rule
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "PUT",
+    url: "/:id/rules/:ruleId",
+    config: { permission: "project:write" },
+    schema: {
+      params: PROJECT_RULE_PARAM_SCHEMA,
+      body: UPDATE_PROJECT_RULE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const { id, ruleId } = request.params;
+      const result = await updateProjectRule(
+        prisma,
+        parseInt(id),
+        ruleId,
+        workspaceId,
+        request.body
+      );
+
+      return reply.send({
+        data: result,
+        message: "Project rule updated successfully",
+      });
+    },
+  });
+
+  // Delete project rule
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "DELETE",
+    url: "/:id/rules/:ruleId",
+    config: { permission: "project:write" },
+    schema: {
+      params: PROJECT_RULE_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const { id, ruleId } = request.params;
+      await deleteProjectRule(prisma, parseInt(id), ruleId, workspaceId);
+
+      return reply.send({
+        message: "Project rule deleted successfully",
+      });
+    },
+  });
+
+  // Get project tasks
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:id/tasks",
+    config: { permission: "project:read" },
+    schema: {
+      params: PROJECT_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const projectId = parseInt(request.params.id);
+      const result = await getTasks(prisma, projectId, workspaceId);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Create project task
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/:id/tasks",
+    config: { permission: "project:write" },
+    schema: {
+      params: PROJECT_ID_PARAM_SCHEMA,
+      body: TASK_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const projectId = parseInt(request.params.id);
+      const result = await createTask(
+        prisma,
+        projectId,
+        workspaceId,
+        request.body
+      );
+
+      return reply.status(201).send({
+        data: result,
+        message: "Task created successfully",
+      });
+    },
+  });
+
+  // Update project task
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "PUT",
+    url: "/:id/tasks/:taskId",
+    config: { permission: "project:write" },
+    schema: {
+      params: TASK_PARAM_SCHEMA,
+      body: TASK_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const { id, taskId } = request.params;
+      const result = await updateTask(
+        prisma,
+        parseInt(id),
+        taskId,
+        workspaceId,
+        request.body
+      );
+
+      return reply.send({
+        data: result,
+        message: "Task updated successfully",
+      });
+    },
+  });
+
+  // Delete project task
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "DELETE",
+    url: "/:id/tasks/:taskId",
+    config: { permission: "project:write" },
+    schema: {
+      params: TASK_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const { id, taskId } = request.params;
+      await deleteTask(prisma, parseInt(id), taskId, workspaceId);
+
+      return reply.send({
+        message: "Task deleted successfully",
+      });
+    },
+  });
 };
 
 export default projectRoutes;
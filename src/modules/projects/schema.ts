@@ -10,6 +10,8 @@ export const CREATE_PROJECT_SCHEMA = z.object({
     .max(500, "Description must be less than 500 characters")
     .optional(),
   icon: z.string().optional(),
+  billable: z.boolean().optional(),
+  clientId: z.number().int().min(1).nullable().optional(),
 });
 
 export const UPDATE_PROJECT_SCHEMA = z.object({
@@ -23,6 +25,16 @@ export const UPDATE_PROJECT_SCHEMA = z.object({
     .max(500, "Description must be less than 500 characters")
     .optional(),
   icon: z.string().optional(),
+  billable: z.boolean().optional(),
+  clientId: z.number().int().min(1).nullable().optional(),
+});
+
+export const PROJECTS_QUERY_SCHEMA = z.object({
+  status: z
+    .enum(["active", "archived", "deleted"])
+    .default("active")
+    .describe("Deleted projects are listed while they can be restored"),
+  clientId: z.coerce.number().int().min(1).optional(),
 });
 
 export const PROJECT_ID_PARAM_SCHEMA = z.object({
@@ -47,3 +59,62 @@ export const DELETE_USERS_FROM_PROJECT_SCHEMA = z.object({
     .min(1, "At least one profile ID is required")
     .max(50, "Cannot delete more than 50 profiles at once"),
 });
+
+const PROJECT_RULE_FIELDS = {
+  profileId: z
+    .string()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe("Only match this member's activities"),
+  app: z.string().trim().min(1).max(200).nullable().optional(),
+  titlePattern: z
+    .string()
+    .min(1)
+    .max(200)
+    .nullable()
+    .optional()
+    .describe(
+      "Case-insensitive RE2 regular expression, without backreferences or lookarounds"
+    ),
+  urlPattern: z
+    .string()
+    .trim()
+    .min(1)
+    .max(200)
+    .nullable()
+    .optional()
+    .describe("Glob over host and path, e.g. github.com/acme/**"),
+  tag: z.string().trim().min(1).max(100).nullable().optional(),
+  priority: z.number().int().min(-1000).max(1000).optional(),
+};
+
+export const CREATE_PROJECT_RULE_SCHEMA = z
+  .object(PROJECT_RULE_FIELDS)
+  .refine(
+    (rule) => rule.app || rule.titlePattern || rule.urlPattern || rule.tag,
+    {
+      message:
+        "A rule needs at least one of app, titlePattern, urlPattern or tag",
+    }
+  );
+
+export const UPDATE_PROJECT_RULE_SCHEMA = z.object(PROJECT_RULE_FIELDS);
+
+export const PROJECT_RULE_PARAM_SCHEMA = z.object({
+  id: z.string().min(1, "Project ID is required"),
+  ruleId: z.coerce.number().int().min(1, "Rule ID is required"),
+});
+
+export const TASK_SCHEMA = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Task name is required")
+    .max(100, "Task name must be less than 100 characters"),
+});
+
+export const TASK_PARAM_SCHEMA = z.object({
+  id: z.string().min(1, "Project ID is required"),
+  taskId: z.coerce.number().int().min(1, "Task ID is required"),
+});
@@ -1,11 +1,25 @@
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
+import { NotFoundError, ValidationError } from "../../plugins/error/plugin";
+import { titlePatternError } from "../../plugins/project-rules/matcher";
+import { findClient } from "../clients/service";
 import {
   ProjectResponse,
   CreateProjectInput,
   UpdateProjectInput,
+  ProjectsQuery,
   AddUsersToProjectInput,
+  CreateProjectRuleInput,
+  UpdateProjectRuleInput,
+  ProjectRuleResponse,
+  TaskInput,
+  TaskResponse,
 } from "./types";
 
+// Days a deleted project can be restored before it's purged
+export const PROJECT_RETENTION_DAYS = parseInt(
+  process.env.PROJECT_RETENTION_DAYS || "30"
+);
+
 /**
  * Create a new project
  */
@@ -15,6 +29,10 @@ export async function createProject(
   workspaceId: string,
   profileId: string
 ): Promise<ProjectResponse> {
+  if (input.clientId) {
+    await findClient(prisma, workspaceId, input.clientId);
+  }
+
   const project = await prisma.project.create({
     data: {
       ...input,
@@ -39,13 +57,23 @@ export async function getProjects(
   prisma: PrismaClient,
   profileId: string,
   workspaceId: string,
-  isAdmin: boolean
+  isAdmin: boolean,
+  query: ProjectsQuery
 ): Promise<ProjectResponse[]> {
+  const statusWhere: Record<ProjectsQuery["status"], Prisma.ProjectWhereInput> =
+    {
+      active: { archivedAt: null, deletedAt: null },
+      archived: { archivedAt: { not: null }, deletedAt: null },
+      deleted: { deletedAt: { gte: getRetentionCutoff(new Date()) } },
+    };
+
   const [projects] = await Promise.all([
     prisma.project.findMany({
       where: {
         workspaceId,
         users: isAdmin ? undefined : { some: { profileId } },
+        clientId: query.clientId,
+        ...statusWhere[query.status],
       },
       orderBy: { createdAt: "desc" },
       select: {
@@ -53,6 +81,10 @@ export async function getProjects(
         name: true,
         description: true,
         icon: true,
+        billable: true,
+        clientId: true,
+        archivedAt: true,
+        deletedAt: true,
         createdAt: true,
         updatedAt: true,
         users: {
@@ -95,6 +127,10 @@ export async function getProject(
       name: true,
       description: true,
       icon: true,
+      billable: true,
+      clientId: true,
+      archivedAt: true,
+      deletedAt: true,
       createdAt: true,
       updatedAt: true,
       users: {
@@ -116,8 +152,8 @@ export async function getProject(
       },
     },
     where: isAdmin
-      ? { id, workspaceId }
-      : { id, workspaceId, users: { some: { profileId } } },
+      ? { id, workspaceId, deletedAt: null }
+      : { id, workspaceId, deletedAt: null, users: { some: { profileId } } },
   });
 
   return project;
@@ -132,8 +168,12 @@ export async function updateProject(
   workspaceId: string,
   input: UpdateProjectInput
 ): Promise<ProjectResponse> {
+  if (input.clientId) {
+    await findClient(prisma, workspaceId, input.clientId);
+  }
+
   const project = await prisma.project.update({
-    where: { id, workspaceId },
+    where: { id, workspaceId, deletedAt: null },
     data: {
       ...input,
       updatedAt: new Date(),
@@ -144,18 +184,92 @@ export async function updateProject(
 }
 
 /**
- * Delete a project
+ * Soft delete a project. Its activities keep their assignment until the
+ * project is purged, running timers are detached.
  */
 export async function deleteProject(
   prisma: PrismaClient,
   id: number,
   workspaceId: string
 ): Promise<void> {
-  await prisma.project.delete({
-    where: { id, workspaceId },
+  await findWorkspaceProject(prisma, id, workspaceId);
+
+  await prisma.$transaction([
+    prisma.project.update({
+      where: { id },
+      data: { deletedAt: new Date() },
+    }),
+    prisma.timer.updateMany({
+      where: { projectId: id },
+      data: { projectId: null },
+    }),
+  ]);
+}
+
+/**
+ * Restore a deleted project within the retention window
+ */
+export async function restoreProject(
+  prisma: PrismaClient,
+  id: number,
+  workspaceId: string
+): Promise<ProjectResponse> {
+  const project = await prisma.project.findFirst({
+    where: {
+      id,
+      workspaceId,
+      deletedAt: { gte: getRetentionCutoff(new Date()) },
+    },
+    select: { id: true },
+  });
+
+  if (!project) {
+    throw new NotFoundError("Deleted project not found");
+  }
+
+  return prisma.project.update({
+    where: { id },
+    data: { deletedAt: null, updatedAt: new Date() },
   });
 }
 
+/**
+ * Archive a project, or unarchive it. Archived projects can't be assigned
+ * to activities, by hand, by rule or with a timer, but stay in reports.
+ */
+export async function setProjectArchived(
+  prisma: PrismaClient,
+  id: number,
+  workspaceId: string,
+  archived: boolean
+): Promise<ProjectResponse> {
+  const project = await findWorkspaceProject(prisma, id, workspaceId);
+
+  return prisma.$transaction(async (tx) => {
+    if (archived) {
+      await tx.timer.updateMany({
+        where: { projectId: id },
+        data: { projectId: null },
+      });
+    }
+
+    return tx.project.update({
+      where: { id },
+      data: {
+        archivedAt: archived ? project.archivedAt || new Date() : null,
+        updatedAt: new Date(),
+      },
+    });
+  });
+}
+
+/**
+ * Projects deleted before this are past the retention window
+ */
+export function getRetentionCutoff(now: Date): Date {
+  return new Date(now.getTime() - PROJECT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
 /**
  * Add users to a project
  */
@@ -168,7 +282,7 @@ export async function addUsersToProject(
 ) {
   // Get the project to check its workspaceId
   const project = await prisma.project.findUnique({
-    where: { id: projectId, workspaceId },
+    where: { id: projectId, workspaceId, deletedAt: null },
   });
 
   if (!project) {
@@ -244,3 +358,212 @@ export async function deleteUsersFromProject(
     },
   });
 }
+
+/**
+ * Get the assignment rules of a project, in the order they are tried
+ */
+export async function getProjectRules(
+  prisma: PrismaClient,
+  projectId: number,
+  workspaceId: string
+): Promise<ProjectRuleResponse[]> {
+  await findWorkspaceProject(prisma, projectId, workspaceId);
+
+  return prisma.projectRule.findMany({
+    where: { projectId },
+    orderBy: [{ priority: "desc" }, { id: "asc" }],
+  });
+}
+
+/**
+ * Add an assignment rule to a project. Matching activities are assigned
+ * as they arrive, earlier ones by the backfill job.
+ */
+export async function createProjectRule(
+  prisma: PrismaClient,
+  projectId: number,
+  workspaceId: string,
+  input: CreateProjectRuleInput
+): Promise<ProjectRuleResponse> {
+  await findWorkspaceProject(prisma, projectId, workspaceId);
+  await validateProjectRule(prisma, workspaceId, input);
+
+  return prisma.projectRule.create({ data: { ...input, projectId } });
+}
+
+/**
+ * Update an assignment rule. Activities it already assigned keep their
+ * project.
+ */
+export async function updateProjectRule(
+  prisma: PrismaClient,
+  projectId: number,
+  ruleId: number,
+  workspaceId: string,
+  input: UpdateProjectRuleInput
+): Promise<ProjectRuleResponse> {
+  const rule = await findProjectRule(prisma, projectId, ruleId, workspaceId);
+  const updated = { ...rule, ...input };
+
+  if (
+    !updated.app &&
+    !updated.titlePattern &&
+    !updated.urlPattern &&
+    !updated.tag
+  ) {
+    throw new ValidationError(
+      "A rule needs at least one of app, titlePattern, urlPattern or tag"
+    );
+  }
+  await validateProjectRule(prisma, workspaceId, input);
+
+  return prisma.projectRule.update({ where: { id: ruleId }, data: input });
+}
+
+/**
+ * Delete an assignment rule. Activities it assigned keep their project.
+ */
+export async function deleteProjectRule(
+  prisma: PrismaClient,
+  projectId: number,
+  ruleId: number,
+  workspaceId: string
+): Promise<void> {
+  await findProjectRule(prisma, projectId, ruleId, workspaceId);
+  await prisma.projectRule.delete({ where: { id: ruleId } });
+}
+
+/**
+ * Get a project's tasks
+ */
+export async function getTasks(
+  prisma: PrismaClient,
+  projectId: number,
+  workspaceId: string
+): Promise<TaskResponse[]> {
+  await findWorkspaceProject(prisma, projectId, workspaceId);
+
+  return prisma.task.findMany({
+    where: { projectId },
+    orderBy: { name: "asc" },
+  });
+}
+
+/**
+ * Add a task to a project
+ */
+export async function createTask(
+  prisma: PrismaClient,
+  projectId: number,
+  workspaceId: string,
+  input: TaskInput
+): Promise<TaskResponse> {
+  await findWorkspaceProject(prisma, projectId, workspaceId);
+
+  return prisma.task.create({ data: { ...input, projectId } });
+}
+
+/**
+ * Rename a task
+ */
+export async function updateTask(
+  prisma: PrismaClient,
+  projectId: number,
+  taskId: number,
+  workspaceId: string,
+  input: TaskInput
+): Promise<TaskResponse> {
+  await findTask(prisma, projectId, taskId, workspaceId);
+
+  return prisma.task.update({ where: { id: taskId }, data: input });
+}
+
+/**
+ * Delete a task, its activities stay on the project without one
+ */
+export async function deleteTask(
+  prisma: PrismaClient,
+  projectId: number,
+  taskId: number,
+  workspaceId: string
+): Promise<void> {
+  await findTask(prisma, projectId, taskId, workspaceId);
+  await prisma.task.delete({ where: { id: taskId } });
+}
+
+async function findWorkspaceProject(
+  prisma: PrismaClient,
+  projectId: number,
+  workspaceId: string
+): Promise<{ id: number; archivedAt: Date | null }> {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, workspaceId, deletedAt: null },
+    select: { id: true, archivedAt: true },
+  });
+
+  if (!project) {
+    throw new NotFoundError("Project not found");
+  }
+
+  return project;
+}
+
+async function findProjectRule(
+  prisma: PrismaClient,
+  projectId: number,
+  ruleId: number,
+  workspaceId: string
+): Promise<ProjectRuleResponse> {
+  const rule = await prisma.projectRule.findFirst({
+    where: { id: ruleId, projectId, project: { workspaceId } },
+  });
+
+  if (!rule) {
+    throw new NotFoundError("Project rule not found");
+  }
+
+  return rule;
+}
+
+async function validateProjectRule(
+  prisma: PrismaClient,
+  workspaceId: string,
+  input: UpdateProjectRuleInput
+): Promise<void> {
+  if (input.titlePattern) {
+    const error = titlePatternError(input.titlePattern);
+    if (error) {
+      throw new ValidationError(`Invalid titlePattern: ${error}`);
+    }
+  }
+
+  if (input.profileId) {
+    const profile = await prisma.profile.findFirst({
+      where: { id: input.profileId, workspaceId },
+      select: { id: true },
+    });
+    if (!profile) {
+      throw new NotFoundError("User is not a member of this workspace");
+    }
+  }
+}
+
+async function findTask(
+  prisma: PrismaClient,
+  projectId: number,
+  taskId: number,
+  workspaceId: string
+): Promise<void> {
+  const task = await prisma.task.findFirst({
+    where: {
+      id: taskId,
+      projectId,
+      project: { workspaceId, deletedAt: null },
+    },
+    select: { id: true },
+  });
+
+  if (!task) {
+    throw new NotFoundError("Task not found");
+  }
+}
@@ -2,18 +2,26 @@ import { z } from "zod";
 import {
   CREATE_PROJECT_SCHEMA,
   UPDATE_PROJECT_SCHEMA,
+  PROJECTS_QUERY_SCHEMA,
   ADD_USERS_TO_PROJECT_SCHEMA,
   DELETE_USERS_FROM_PROJECT_SCHEMA,
+  CREATE_PROJECT_RULE_SCHEMA,
+  UPDATE_PROJECT_RULE_SCHEMA,
+  TASK_SCHEMA,
 } from "./schema";
 
 export type CreateProjectInput = z.infer<typeof CREATE_PROJECT_SCHEMA>;
 export type UpdateProjectInput = z.infer<typeof UPDATE_PROJECT_SCHEMA>;
+export type ProjectsQuery = z.infer<typeof PROJECTS_QUERY_SCHEMA>;
 export type AddUsersToProjectInput = z.infer<
   typeof ADD_USERS_TO_PROJECT_SCHEMA
 >;
 export type DeleteUsersFromProjectInput = z.infer<
   typeof DELETE_USERS_FROM_PROJECT_SCHEMA
 >;
+export type CreateProjectRuleInput = z.infer<typeof CREATE_PROJECT_RULE_SCHEMA>;
+export type UpdateProjectRuleInput = z.infer<typeof UPDATE_PROJECT_RULE_SCHEMA>;
+export type TaskInput = z.infer<typeof TASK_SCHEMA>;
 
 // Project interface (partial of Prisma Project)
 export interface ProjectResponse {
@@ -21,6 +29,10 @@ export interface ProjectResponse {
   name: string;
   description: string | null;
   icon: string;
+  billable: boolean;
+  clientId: number | null;
+  archivedAt: Date | null;
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   users?: {
@@ -34,3 +46,26 @@ export interface ProjectResponse {
     };
   }[];
 }
+
+// Project rule interface
+export interface ProjectRuleResponse {
+  id: number;
+  projectId: number;
+  profileId: string | null;
+  app: string | null;
+  titlePattern: string | null;
+  urlPattern: string | null;
+  tag: string | null;
+  priority: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Task interface
+export interface TaskResponse {
+  id: number;
+  projectId: number;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,92 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import {
+  CREATE_RATE_SCHEMA,
+  RATE_ID_PARAM_SCHEMA,
+  RATES_QUERY_SCHEMA,
+  UPDATE_RATE_SCHEMA,
+} from "./schema";
+import { createRate, deleteRate, getRates, updateRate } from "./service";
+
+const rateRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Get hourly rates of the workspace
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/",
+    config: { permission: "report:read" },
+    schema: {
+      querystring: RATES_QUERY_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const result = await getRates(prisma, workspaceId, request.query);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Create hourly rate
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/",
+    config: { permission: "workspace:manage" },
+    schema: {
+      body: CREATE_RATE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const result = await createRate(prisma, workspaceId, request.body);
+
+      return reply.status(201).send({
+        data: result,
+        message: "Rate created successfully",
+      });
+    },
+  });
+
+  // Update hourly rate
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "PUT",
+    url: "/:id",
+    config: { permission: "workspace:manage" },
+    schema: {
+      params: RATE_ID_PARAM_SCHEMA,
+      body: UPDATE_RATE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const { id } = request.params;
+      const result = await updateRate(prisma, workspaceId, id, request.body);
+
+      return reply.send({
+        data: result,
+        message: "Rate updated successfully",
+      });
+    },
+  });
+
+  // Delete hourly rate
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "DELETE",
+    url: "/:id",
+    config: { permission: "workspace:manage" },
+    schema: {
+      params: RATE_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const { id } = request.params;
+      await deleteRate(prisma, workspaceId, id);
+
+      return reply.send({
+        message: "Rate deleted successfully",
+      });
+    },
+  });
+};
+
+export default rateRoutes;
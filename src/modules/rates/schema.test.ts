@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { CREATE_RATE_SCHEMA } from "./schema";
+
+describe("CREATE_RATE_SCHEMA", () => {
+  it.each(["2025-13-45", "2025-02-29", "2025-04-31"])(
+    "rejects the impossible date %s",
+    (effectiveFrom) => {
+      const result = CREATE_RATE_SCHEMA.safeParse({
+        amount: 80,
+        currency: "eur",
+        effectiveFrom,
+      });
+
+      expect(result.success).toBe(false);
+    }
+  );
+
+  it("accepts a leap day", () => {
+    const result = CREATE_RATE_SCHEMA.safeParse({
+      amount: 80,
+      currency: "eur",
+      effectiveFrom: "2024-02-29",
+    });
+
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+import { z } from "zod";
+
+const RATE_FIELDS = {
+  projectId: z.number().int().min(1).nullable().optional(),
+  profileId: z.string().min(1).nullable().optional(),
+  amount: z.number().positive().max(1_000_000_000),
+  currency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/, "Currency must be an ISO 4217 code")
+    .transform((code) => code.toUpperCase()),
+  effectiveFrom: z.iso
+    .date("Date must be a valid date in YYYY-MM-DD format")
+    .describe("First day the rate applies, in the member's timezone"),
+};
+
+// Scoped to a project, a member, both or neither for the workspace
+export const CREATE_RATE_SCHEMA = z.object(RATE_FIELDS);
+
+export const UPDATE_RATE_SCHEMA = z.object({
+  amount: RATE_FIELDS.amount.optional(),
+  currency: RATE_FIELDS.currency.optional(),
+  effectiveFrom: RATE_FIELDS.effectiveFrom.optional(),
+});
+
+export const RATES_QUERY_SCHEMA = z.object({
+  projectId: z.coerce.number().int().min(1).optional(),
+  profileId: z.string().min(1).optional(),
+});
+
+export const RATE_ID_PARAM_SCHEMA = z.object({
+  id: z.string().min(1, "Rate ID is required"),
+});
@@ -0,0 +1,174 @@
+import { HourlyRate, PrismaClient } from "@prisma/client";
+import { NotFoundError } from "../../plugins/error/plugin";
+import {
+  CreateRateInput,
+  RateResponse,
+  RatesQuery,
+  UpdateRateInput,
+} from "./types";
+
+/**
+ * Get the workspace's hourly rates, latest first
+ */
+export async function getRates(
+  prisma: PrismaClient,
+  workspaceId: string,
+  query: RatesQuery
+): Promise<RateResponse[]> {
+  const rates = await prisma.hourlyRate.findMany({
+    where: {
+      workspaceId,
+      projectId: query.projectId,
+      profileId: query.profileId,
+    },
+    orderBy: [{ effectiveFrom: "desc" }, { createdAt: "desc" }],
+  });
+
+  return rates.map(toRateResponse);
+}
+
+/**
+ * Add an hourly rate for the workspace, a project, a member or a member on
+ * a project
+ */
+export async function createRate(
+  prisma: PrismaClient,
+  workspaceId: string,
+  input: CreateRateInput
+): Promise<RateResponse> {
+  const { projectId = null, profileId = null, effectiveFrom, ...rate } = input;
+
+  if (projectId !== null) {
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, workspaceId, deletedAt: null },
+      select: { id: true },
+    });
+    if (!project) {
+      throw new NotFoundError("Project not found");
+    }
+  }
+  if (profileId !== null) {
+    const profile = await prisma.profile.findFirst({
+      where: { id: profileId, workspaceId },
+      select: { id: true },
+    });
+    if (!profile) {
+      throw new NotFoundError("User is not a member of this workspace");
+    }
+  }
+
+  const created = await prisma.hourlyRate.create({
+    data: {
+      ...rate,
+      workspaceId,
+      projectId,
+      profileId,
+      effectiveFrom: new Date(`${effectiveFrom}T00:00:00.000Z`),
+    },
+  });
+
+  return toRateResponse(created);
+}
+
+/**
+ * Update an hourly rate. Its scope can't change.
+ */
+export async function updateRate(
+  prisma: PrismaClient,
+  workspaceId: string,
+  id: string,
+  input: UpdateRateInput
+): Promise<RateResponse> {
+  await findRate(prisma, workspaceId, id);
+  const { effectiveFrom, ...rate } = input;
+
+  const updated = await prisma.hourlyRate.update({
+    where: { id },
+    data: {
+      ...rate,
+      effectiveFrom: effectiveFrom
+        ? new Date(`${effectiveFrom}T00:00:00.000Z`)
+        : undefined,
+    },
+  });
+
+  return toRateResponse(updated);
+}
+
+/**
+ * Delete an hourly rate
+ */
+export async function deleteRate(
+  prisma: PrismaClient,
+  workspaceId: string,
+  id: string
+): Promise<void> {
+  await findRate(prisma, workspaceId, id);
+  await prisma.hourlyRate.delete({ where: { id } });
+}
+
+/**
+ * Build a lookup of the rate that applies to a member's work on a project
+ * on a day. The most specific scope wins, then the latest effective date.
+ */
+export function createRateResolver(
+  rates: HourlyRate[]
+): (
+  projectId: number,
+  profileId: string,
+  localDate: string
+) => RateResponse | undefined {
+  const responses = rates
+    .map(toRateResponse)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+
+  return (projectId, profileId, localDate) => {
+    let best: RateResponse | undefined;
+    let bestScope = -1;
+
+    for (const rate of responses) {
+      if (rate.effectiveFrom > localDate) continue;
+      if (rate.projectId !== null && rate.projectId !== projectId) continue;
+      if (rate.profileId !== null && rate.profileId !== profileId) continue;
+
+      // Member on the project, member, project, workspace
+      const scope =
+        (rate.profileId !== null ? 2 : 0) + (rate.projectId !== null ? 1 : 0);
+      if (scope > bestScope) {
+        best = rate;
+        bestScope = scope;
+      }
+    }
+
+    return best;
+  };
+}
+
+async function findRate(
+  prisma: PrismaClient,
+  workspaceId: string,
+  id: string
+): Promise<HourlyRate> {
+  const rate = await prisma.hourlyRate.findFirst({
+    where: { id, workspaceId },
+  });
+
+  if (!rate) {
+    throw new NotFoundError("Rate not found");
+  }
+
+  return rate;
+}
+
+function toRateResponse(rate: HourlyRate): RateResponse {
+  return {
+    id: rate.id,
+    projectId: rate.projectId,
+    profileId: rate.profileId,
+    amount: rate.amount.toNumber(),
+    currency: rate.currency,
+    effectiveFrom: rate.effectiveFrom.toISOString().slice(0, 10),
+    createdAt: rate.createdAt,
+    updatedAt: rate.updatedAt,
+  };
+}
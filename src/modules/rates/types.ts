@@ -0,0 +1,23 @@
+import { z } from "zod";
+import {
+  CREATE_RATE_SCHEMA,
+  RATES_QUERY_SCHEMA,
+  UPDATE_RATE_SCHEMA,
+} from "./schema";
+
+export type CreateRateInput = z.infer<typeof CREATE_RATE_SCHEMA>;
+export type UpdateRateInput = z.infer<typeof UPDATE_RATE_SCHEMA>;
+export type RatesQuery = z.infer<typeof RATES_QUERY_SCHEMA>;
+
+// Hourly rate interface
+export interface RateResponse {
+  id: string;
+  projectId: number | null;
+  profileId: string | null;
+  amount: number;
+  currency: string;
+  // YYYY-MM-DD
+  effectiveFrom: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,56 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import {
+  PROJECT_REPORT_PARAM_SCHEMA,
+  PROJECT_REPORT_QUERY_SCHEMA,
+} from "./schema";
+import { exportProjectReport, getProjectReport } from "./service";
+
+const reportRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Get billable hours and amounts of a project, as JSON, CSV or PDF
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:id/report",
+    config: { permission: "report:read" },
+    schema: {
+      params: PROJECT_REPORT_PARAM_SCHEMA,
+      querystring: PROJECT_REPORT_QUERY_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { workspaceId = "" } = request.user || {};
+      const { id } = request.params;
+
+      if (request.query.format === "json") {
+        const result = await getProjectReport(
+          prisma,
+          workspaceId,
+          id,
+          request.query
+        );
+
+        return reply.send({
+          data: result,
+        });
+      }
+
+      const result = await exportProjectReport(
+        prisma,
+        workspaceId,
+        id,
+        request.query
+      );
+
+      return reply
+        .header("Content-Type", result.contentType)
+        .header(
+          "Content-Disposition",
+          `attachment; filename="${result.fileName}"`
+        )
+        .send(result.body);
+    },
+  });
+};
+
+export default reportRoutes;
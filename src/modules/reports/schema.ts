@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+export const REPORT_FORMATS = ["json", "csv", "pdf"] as const;
+
+const REPORT_PERIOD_FIELDS = {
+  startDate: z.iso
+    .date("Date must be a valid date in YYYY-MM-DD format")
+    .describe("First day, in the workspace's timezone"),
+  endDate: z.iso
+    .date("Date must be a valid date in YYYY-MM-DD format")
+    .describe("Last day, included"),
+};
+
+const isValidPeriod = (query: { startDate: string; endDate: string }) =>
+  query.startDate <= query.endDate;
+const INVALID_PERIOD = {
+  message: "startDate must not be after endDate",
+  path: ["endDate"],
+};
+
+export const REPORT_PERIOD_SCHEMA = z
+  .object(REPORT_PERIOD_FIELDS)
+  .refine(isValidPeriod, INVALID_PERIOD);
+
+export const PROJECT_REPORT_QUERY_SCHEMA = z
+  .object({
+    ...REPORT_PERIOD_FIELDS,
+    format: z.enum(REPORT_FORMATS).default("json"),
+  })
+  .refine(isValidPeriod, INVALID_PERIOD);
+
+export const PROJECT_REPORT_PARAM_SCHEMA = z.object({
+  id: z.coerce.number().int().min(1, "Project ID is required"),
+});
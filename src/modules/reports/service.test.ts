@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { PrismaClient } from "@prisma/client";
+import { getProjectReport } from "./service";
+
+const ACTIVITIES = [
+  // Last day of the period, in the afternoon
+  { timestamp: new Date("2025-01-31T15:00:00.000Z"), duration: 7200 },
+  // After midnight in Berlin, already February
+  { timestamp: new Date("2025-01-31T23:30:00.000Z"), duration: 3600 },
+].map((activity) => ({
+  ...activity,
+  profileId: "profile-1",
+  billable: null,
+  taskId: null,
+}));
+
+function createPrisma() {
+  return {
+    project: {
+      findFirst: vi.fn().mockResolvedValue({
+        id: 1,
+        name: "Website",
+        billable: true,
+        workspace: { timezone: "Europe/Berlin" },
+        tasks: [],
+      }),
+    },
+    activity: {
+      findMany: vi.fn(
+        async ({ where }: { where: { timestamp: { gte: Date; lt: Date } } }) =>
+          ACTIVITIES.filter(
+            ({ timestamp }) =>
+              timestamp >= where.timestamp.gte && timestamp < where.timestamp.lt
+          )
+      ),
+    },
+    hourlyRate: { findMany: vi.fn().mockResolvedValue([]) },
+    profile: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          id: "profile-1",
+          name: "Jane",
+          timezone: null,
+          user: { email: "jane@acme.com" },
+        },
+      ]),
+    },
+  };
+}
+
+describe("getProjectReport", () => {
+  it("includes the whole end date in the workspace's timezone", async () => {
+    const prisma = createPrisma();
+
+    const report = await getProjectReport(
+      prisma as unknown as PrismaClient,
+      "workspace-1",
+      1,
+      { startDate: "2025-01-01", endDate: "2025-01-31" }
+    );
+
+    expect(prisma.activity.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          timestamp: {
+            gte: new Date("2024-12-31T23:00:00.000Z"),
+            lt: new Date("2025-01-31T23:00:00.000Z"),
+          },
+        }),
+      })
+    );
+    expect(report.hours).toBe(2);
+  });
+});
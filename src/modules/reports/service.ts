@@ -0,0 +1,425 @@
+import { PrismaClient } from "@prisma/client";
+import { NotFoundError } from "../../plugins/error/plugin";
+import { toCsvRow } from "../../plugins/csv/format";
+import { renderInvoice } from "../../plugins/pdf/invoice";
+import {
+  getLocalDate,
+  getZonedDayRange,
+  resolveTimeZone,
+} from "../../plugins/time/timezone";
+import { findClient } from "../clients/service";
+import { createRateResolver } from "../rates/service";
+import {
+  ClientReport,
+  MemberReport,
+  ProjectReport,
+  ProjectReportFile,
+  ProjectReportQuery,
+  ReportLine,
+  ReportPeriod,
+  ReportTotal,
+  TaskReport,
+} from "./types";
+
+interface LineTotal {
+  billable: boolean;
+  rate: number | null;
+  currency: string | null;
+  seconds: number;
+}
+
+// Totals of a member's or a task's lines
+interface LineSummary {
+  seconds: number;
+  billableSeconds: number;
+  lines: ReportLine[];
+  totals: Map<string, { seconds: number; cents: number }>;
+  unratedSeconds: number;
+}
+
+/**
+ * Billable hours and amounts per member and per task of a project in
+ * the days from startDate to endDate in the workspace's timezone, from the
+ * selected activities. Each activity is billed at the rate in effect on
+ * its day in the member's timezone.
+ * Archived projects are reported like active ones.
+ */
+export async function getProjectReport(
+  prisma: PrismaClient,
+  workspaceId: string,
+  projectId: number,
+  query: ReportPeriod
+): Promise<ProjectReport> {
+  const { startDate, endDate } = query;
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, workspaceId, deletedAt: null },
+    select: {
+      id: true,
+      name: true,
+      billable: true,
+      workspace: { select: { timezone: true } },
+      tasks: { select: { id: true, name: true } },
+    },
+  });
+
+  if (!project) {
+    throw new NotFoundError("Project not found");
+  }
+
+  const timeZone = resolveTimeZone(null, project.workspace.timezone);
+  const { start } = getZonedDayRange(startDate, timeZone);
+  const { end } = getZonedDayRange(endDate, timeZone);
+
+  const [activities, rates] = await Promise.all([
+    prisma.activity.findMany({
+      where: {
+        projectId,
+        selected: true,
+        timestamp: { gte: start, lt: end },
+      },
+      select: {
+        profileId: true,
+        timestamp: true,
+        duration: true,
+        billable: true,
+        taskId: true,
+      },
+    }),
+    prisma.hourlyRate.findMany({ where: { workspaceId } }),
+  ]);
+
+  const profiles = await prisma.profile.findMany({
+    where: { id: { in: [...new Set(activities.map((a) => a.profileId))] } },
+    select: {
+      id: true,
+      name: true,
+      timezone: true,
+      user: { select: { email: true } },
+    },
+  });
+  const profilesById = new Map(profiles.map((p) => [p.id, p]));
+  const resolveRate = createRateResolver(rates);
+
+  const memberLines = new Map<string, Map<string, LineTotal>>();
+  const taskLines = new Map<number | null, Map<string, LineTotal>>();
+  for (const activity of activities) {
+    const profile = profilesById.get(activity.profileId);
+    const seconds = activity.duration || 0;
+    if (!profile || seconds <= 0) continue;
+
+    const billable = activity.billable ?? project.billable;
+    const rate = billable
+      ? resolveRate(
+          projectId,
+          activity.profileId,
+          getLocalDate(
+            activity.timestamp,
+            resolveTimeZone(profile.timezone, project.workspace.timezone)
+          )
+        )
+      : undefined;
+
+    const key = billable ? rate?.id || "unrated" : "non-billable";
+    const line = {
+      billable,
+      rate: rate?.amount ?? null,
+      currency: rate?.currency ?? null,
+    };
+    addToLine(memberLines, activity.profileId, key, line, seconds);
+    addToLine(taskLines, activity.taskId, key, line, seconds);
+  }
+
+  const totals = new Map<string, { seconds: number; cents: number }>();
+  let seconds = 0;
+  let billableSeconds = 0;
+  let unratedSeconds = 0;
+
+  const members: MemberReport[] = [...memberLines].map(([profileId, lines]) => {
+    const profile = profilesById.get(profileId);
+    const summary = summarizeLines(lines.values());
+    seconds += summary.seconds;
+    billableSeconds += summary.billableSeconds;
+    unratedSeconds += summary.unratedSeconds;
+    for (const [currency, total] of summary.totals) {
+      addTotal(totals, currency, total);
+    }
+
+    return {
+      profileId,
+      name: profile?.name || "",
+      email: profile?.user.email || "",
+      hours: toHours(summary.seconds),
+      billableHours: toHours(summary.billableSeconds),
+      lines: summary.lines,
+    };
+  });
+
+  const taskNames = new Map(project.tasks.map((task) => [task.id, task.name]));
+  const tasks: TaskReport[] = [...taskLines].map(([taskId, lines]) => {
+    const summary = summarizeLines(lines.values());
+
+    return {
+      taskId,
+      name: taskId !== null ? taskNames.get(taskId) || "" : "",
+      hours: toHours(summary.seconds),
+      billableHours: toHours(summary.billableSeconds),
+      totals: toReportTotals(summary.totals),
+      unratedHours: toHours(summary.unratedSeconds),
+    };
+  });
+
+  return {
+    project: { id: project.id, name: project.name, billable: project.billable },
+    startDate,
+    endDate,
+    hours: toHours(seconds),
+    billableHours: toHours(billableSeconds),
+    members: members.sort((a, b) => a.name.localeCompare(b.name)),
+    // Time without a task last
+    tasks: tasks.sort(
+      (a, b) =>
+        Number(a.taskId === null) - Number(b.taskId === null) ||
+        a.name.localeCompare(b.name)
+    ),
+    totals: toReportTotals(totals),
+    unratedHours: toHours(unratedSeconds),
+  };
+}
+
+/**
+ * Roll-up of the project reports of a client's projects, archived ones
+ * included
+ */
+export async function getClientReport(
+  prisma: PrismaClient,
+  workspaceId: string,
+  clientId: number,
+  query: ReportPeriod
+): Promise<ClientReport> {
+  const client = await findClient(prisma, workspaceId, clientId);
+  const projects = await prisma.project.findMany({
+    where: { clientId, workspaceId, deletedAt: null },
+    select: { id: true },
+    orderBy: { name: "asc" },
+  });
+
+  const reports: ProjectReport[] = [];
+  for (const project of projects) {
+    reports.push(
+      await getProjectReport(prisma, workspaceId, project.id, query)
+    );
+  }
+
+  const totals = new Map<string, { seconds: number; cents: number }>();
+  for (const report of reports) {
+    for (const total of report.totals) {
+      addTotal(totals, total.currency, {
+        seconds: total.hours * 3600,
+        cents: Math.round(total.amount * 100),
+      });
+    }
+  }
+
+  return {
+    client,
+    startDate: query.startDate,
+    endDate: query.endDate,
+    hours: round(reports.reduce((sum, report) => sum + report.hours, 0)),
+    billableHours: round(
+      reports.reduce((sum, report) => sum + report.billableHours, 0)
+    ),
+    projects: reports.map((report) => ({
+      id: report.project.id,
+      name: report.project.name,
+      hours: report.hours,
+      billableHours: report.billableHours,
+      totals: report.totals,
+      unratedHours: report.unratedHours,
+    })),
+    totals: toReportTotals(totals),
+    unratedHours: round(
+      reports.reduce((sum, report) => sum + report.unratedHours, 0)
+    ),
+  };
+}
+
+/**
+ * The project report as a CSV sheet or an invoice PDF
+ */
+export async function exportProjectReport(
+  prisma: PrismaClient,
+  workspaceId: string,
+  projectId: number,
+  query: ProjectReportQuery
+): Promise<ProjectReportFile> {
+  const report = await getProjectReport(prisma, workspaceId, projectId, query);
+  const period = `${report.startDate} - ${report.endDate}`;
+  const fileName = `report-${projectId}-${report.startDate}-${report.endDate}`;
+
+  if (query.format === "pdf") {
+    return {
+      contentType: "application/pdf",
+      fileName: `${fileName}.pdf`,
+      body: renderInvoice({
+        title: "Invoice",
+        details: [`Project: ${report.project.name}`, `Period: ${period}`],
+        columns: ["Member", "Hours", "Rate", "Amount"],
+        rows: report.members.flatMap((member) =>
+          member.lines
+            .filter((line) => line.billable)
+            .map((line) => [
+              member.name || member.email,
+              line.hours.toFixed(2),
+              line.rate !== null && line.currency
+                ? formatMoney(line.rate, line.currency)
+                : "No rate",
+              line.amount !== null && line.currency
+                ? formatMoney(line.amount, line.currency)
+                : "-",
+            ])
+        ),
+        totals: [
+          ...report.totals.map((total): [string, string] => [
+            `Total ${total.currency} (${total.hours.toFixed(2)} h)`,
+            formatMoney(total.amount, total.currency),
+          ]),
+          ...(report.unratedHours
+            ? [
+                [
+                  "Billable hours without a rate",
+                  report.unratedHours.toFixed(2),
+                ] as [string, string],
+              ]
+            : []),
+        ],
+      }),
+    };
+  }
+
+  let csv = toCsvRow([
+    "member",
+    "email",
+    "billable",
+    "hours",
+    "rate",
+    "currency",
+    "amount",
+  ]);
+  for (const member of report.members) {
+    for (const line of member.lines) {
+      csv += toCsvRow([
+        member.name,
+        member.email,
+        String(line.billable),
+        line.hours,
+        line.rate,
+        line.currency,
+        line.amount,
+      ]);
+    }
+  }
+  for (const total of report.totals) {
+    csv += toCsvRow([
+      "Total",
+      "",
+      "true",
+      total.hours,
+      "",
+      total.currency,
+      total.amount,
+    ]);
+  }
+
+  return {
+    contentType: "text/csv; charset=utf-8",
+    fileName: `${fileName}.csv`,
+    body: csv,
+  };
+}
+
+function addToLine<K>(
+  groups: Map<K, Map<string, LineTotal>>,
+  group: K,
+  key: string,
+  line: Omit<LineTotal, "seconds">,
+  seconds: number
+): void {
+  const lines = groups.get(group) || new Map<string, LineTotal>();
+  const total = lines.get(key) || { ...line, seconds: 0 };
+  total.seconds += seconds;
+  lines.set(key, total);
+  groups.set(group, lines);
+}
+
+function summarizeLines(lines: Iterable<LineTotal>): LineSummary {
+  const summary: LineSummary = {
+    seconds: 0,
+    billableSeconds: 0,
+    lines: [],
+    totals: new Map(),
+    unratedSeconds: 0,
+  };
+
+  for (const line of lines) {
+    summary.seconds += line.seconds;
+    if (line.billable) summary.billableSeconds += line.seconds;
+
+    const cents =
+      line.rate !== null
+        ? Math.round((line.seconds * line.rate * 100) / 3600)
+        : null;
+    if (line.currency && cents !== null) {
+      addTotal(summary.totals, line.currency, { seconds: line.seconds, cents });
+    } else if (line.billable) {
+      summary.unratedSeconds += line.seconds;
+    }
+
+    summary.lines.push({
+      billable: line.billable,
+      rate: line.rate,
+      currency: line.currency,
+      hours: toHours(line.seconds),
+      amount: cents !== null ? cents / 100 : null,
+    });
+  }
+
+  summary.lines.sort(
+    (a, b) => Number(b.billable) - Number(a.billable) || b.hours - a.hours
+  );
+  return summary;
+}
+
+function addTotal(
+  totals: Map<string, { seconds: number; cents: number }>,
+  currency: string,
+  { seconds, cents }: { seconds: number; cents: number }
+): void {
+  const total = totals.get(currency) || { seconds: 0, cents: 0 };
+  total.seconds += seconds;
+  total.cents += cents;
+  totals.set(currency, total);
+}
+
+function toReportTotals(
+  totals: Map<string, { seconds: number; cents: number }>
+): ReportTotal[] {
+  return [...totals].map(([currency, total]) => ({
+    currency,
+    hours: toHours(total.seconds),
+    amount: total.cents / 100,
+  }));
+}
+
+function toHours(seconds: number): number {
+  return round(seconds / 3600);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en", { style: "currency", currency }).format(
+    amount
+  );
+}
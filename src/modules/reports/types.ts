@@ -0,0 +1,81 @@
+import { Readable } from "stream";
+import { z } from "zod";
+import { PROJECT_REPORT_QUERY_SCHEMA, REPORT_PERIOD_SCHEMA } from "./schema";
+
+export type ReportPeriod = z.infer<typeof REPORT_PERIOD_SCHEMA>;
+export type ProjectReportQuery = z.infer<typeof PROJECT_REPORT_QUERY_SCHEMA>;
+
+// Hours of a member at one rate, or their non-billable hours
+export interface ReportLine {
+  billable: boolean;
+  rate: number | null;
+  currency: string | null;
+  hours: number;
+  // null for non-billable hours and billable hours without a rate
+  amount: number | null;
+}
+
+export interface MemberReport {
+  profileId: string;
+  name: string;
+  email: string;
+  hours: number;
+  billableHours: number;
+  lines: ReportLine[];
+}
+
+// Billable hours and amounts in a currency
+export interface ReportTotal {
+  currency: string;
+  hours: number;
+  amount: number;
+}
+
+export interface TaskReport {
+  // null for time on the project without a task
+  taskId: number | null;
+  name: string;
+  hours: number;
+  billableHours: number;
+  totals: ReportTotal[];
+  unratedHours: number;
+}
+
+// Project report interface
+export interface ProjectReport {
+  project: { id: number; name: string; billable: boolean };
+  // YYYY-MM-DD
+  startDate: string;
+  endDate: string;
+  hours: number;
+  billableHours: number;
+  members: MemberReport[];
+  tasks: TaskReport[];
+  totals: ReportTotal[];
+  // Billable hours no rate applies to
+  unratedHours: number;
+}
+
+// Client report interface, a roll-up of its projects
+export interface ClientReport {
+  client: { id: number; name: string };
+  // YYYY-MM-DD
+  startDate: string;
+  endDate: string;
+  hours: number;
+  billableHours: number;
+  projects: Array<
+    { id: number; name: string } & Pick<
+      ProjectReport,
+      "hours" | "billableHours" | "totals" | "unratedHours"
+    >
+  >;
+  totals: ReportTotal[];
+  unratedHours: number;
+}
+
+export interface ProjectReportFile {
+  contentType: string;
+  fileName: string;
+  body: string | Readable;
+}
@@ -0,0 +1,94 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import {
+  CREATE_ROLE_SCHEMA,
+  UPDATE_ROLE_SCHEMA,
+  ROLE_PARAM_SCHEMA,
+} from "./schema";
+import { WORKSPACE_ID_PARAM_SCHEMA } from "../workspaces/schema";
+import { getRoles, createRole, updateRole, deleteRole } from "./service";
+
+const roleRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Get all roles of a workspace
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:id/roles",
+    config: { permission: "member:read", workspaceParam: "id" },
+    schema: {
+      params: WORKSPACE_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { id } = request.params;
+      const result = await getRoles(prisma, id);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Create role
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/:id/roles",
+    config: { permission: "role:manage", workspaceParam: "id" },
+    schema: {
+      params: WORKSPACE_ID_PARAM_SCHEMA,
+      body: CREATE_ROLE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { id } = request.params;
+      const { userId = "" } = request.user || {};
+      const result = await createRole(prisma, id, request.body, userId);
+
+      return reply.status(201).send({
+        data: result,
+        message: "Role created successfully",
+      });
+    },
+  });
+
+  // Update role
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "PUT",
+    url: "/:id/roles/:roleId",
+    config: { permission: "role:manage", workspaceParam: "id" },
+    schema: {
+      params: ROLE_PARAM_SCHEMA,
+      body: UPDATE_ROLE_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { id, roleId } = request.params;
+      const { userId = "" } = request.user || {};
+      const result = await updateRole(prisma, id, roleId, request.body, userId);
+
+      return reply.send({
+        data: result,
+        message: "Role updated successfully",
+      });
+    },
+  });
+
+  // Delete role
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "DELETE",
+    url: "/:id/roles/:roleId",
+    config: { permission: "role:manage", workspaceParam: "id" },
+    schema: {
+      params: ROLE_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { id, roleId } = request.params;
+      const { userId = "" } = request.user || {};
+      await deleteRole(prisma, id, roleId, userId);
+
+      return reply.send({
+        message: "Role deleted successfully",
+      });
+    },
+  });
+};
+
+export default roleRoutes;
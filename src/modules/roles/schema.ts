@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { PERMISSIONS } from "../../plugins/auth/permissions";
+
+export const CREATE_ROLE_SCHEMA = z.object({
+  name: z
+    .string()
+    .min(1, "Role name is required")
+    .max(50, "Role name must be less than 50 characters"),
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+export const UPDATE_ROLE_SCHEMA = z.object({
+  name: z
+    .string()
+    .min(1, "Role name is required")
+    .max(50, "Role name must be less than 50 characters")
+    .optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).optional(),
+});
+
+export const ROLE_PARAM_SCHEMA = z.object({
+  id: z.string().min(1, "Workspace ID is required"),
+  roleId: z.string().min(1, "Role ID is required"),
+});
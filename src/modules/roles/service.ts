@@ -0,0 +1,193 @@
+import { Prisma, PrismaClient, WorkspaceRole } from "@prisma/client";
+import { CreateRoleInput, RoleResponse, UpdateRoleInput } from "./types";
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../../plugins/error/plugin";
+import { BUILT_IN_ROLES, BuiltInRoleKey } from "../../plugins/auth/permissions";
+import { recordAuditEvent } from "../audit/service";
+
+const ROLE_INCLUDE = {
+  _count: { select: { profiles: true } },
+} satisfies Prisma.WorkspaceRoleInclude;
+
+type RoleWithCount = Prisma.WorkspaceRoleGetPayload<{
+  include: typeof ROLE_INCLUDE;
+}>;
+
+function roleSnapshot(role: WorkspaceRole) {
+  return { roleId: role.id, name: role.name, permissions: role.permissions };
+}
+
+function toRoleResponse({ _count, ...role }: RoleWithCount): RoleResponse {
+  return { ...role, memberCount: _count.profiles };
+}
+
+/**
+ * Role rows to create along with a new workspace
+ */
+export function builtInRolesData(): Prisma.WorkspaceRoleCreateWithoutWorkspaceInput[] {
+  return Object.entries(BUILT_IN_ROLES).map(([key, role]) => ({
+    key,
+    name: role.name,
+    permissions: role.permissions,
+    isBuiltIn: true,
+  }));
+}
+
+/**
+ * Get a built-in role of a workspace
+ */
+export async function getBuiltInRole(
+  prisma: Prisma.TransactionClient,
+  workspaceId: string,
+  key: BuiltInRoleKey
+) {
+  return prisma.workspaceRole.findUniqueOrThrow({
+    where: { workspaceId_key: { workspaceId, key } },
+  });
+}
+
+/**
+ * Get all roles of a workspace
+ */
+export async function getRoles(
+  prisma: PrismaClient,
+  workspaceId: string
+): Promise<RoleResponse[]> {
+  const roles = await prisma.workspaceRole.findMany({
+    where: { workspaceId },
+    include: ROLE_INCLUDE,
+    orderBy: [{ isBuiltIn: "desc" }, { createdAt: "asc" }],
+  });
+
+  return roles.map(toRoleResponse);
+}
+
+/**
+ * Create a custom role
+ */
+export async function createRole(
+  prisma: PrismaClient,
+  workspaceId: string,
+  input: CreateRoleInput,
+  actorId: string
+): Promise<RoleResponse> {
+  const role = await prisma.workspaceRole
+    .create({
+      data: {
+        workspaceId,
+        name: input.name,
+        permissions: input.permissions,
+      },
+      include: ROLE_INCLUDE,
+    })
+    .catch((e) => {
+      if (e.code === "P2002") {
+        throw new ConflictError("A role with this name already exists");
+      }
+      throw e;
+    });
+
+  await recordAuditEvent(prisma, {
+    workspaceId,
+    actorId,
+    action: "ROLE_CREATED",
+    after: roleSnapshot(role),
+  });
+
+  return toRoleResponse(role);
+}
+
+/**
+ * Update a custom role. Built-in roles are read-only.
+ */
+export async function updateRole(
+  prisma: PrismaClient,
+  workspaceId: string,
+  roleId: string,
+  input: UpdateRoleInput,
+  actorId: string
+): Promise<RoleResponse> {
+  const existing = await getCustomRole(prisma, workspaceId, roleId);
+
+  const role = await prisma.workspaceRole
+    .update({
+      where: { id: roleId },
+      data: {
+        name: input.name,
+        permissions: input.permissions,
+      },
+      include: ROLE_INCLUDE,
+    })
+    .catch((e) => {
+      if (e.code === "P2002") {
+        throw new ConflictError("A role with this name already exists");
+      }
+      throw e;
+    });
+
+  await recordAuditEvent(prisma, {
+    workspaceId,
+    actorId,
+    action: "ROLE_UPDATED",
+    before: roleSnapshot(existing),
+    after: roleSnapshot(role),
+  });
+
+  return toRoleResponse(role);
+}
+
+/**
+ * Delete a custom role that is no longer assigned
+ */
+export async function deleteRole(
+  prisma: PrismaClient,
+  workspaceId: string,
+  roleId: string,
+  actorId: string
+): Promise<void> {
+  const role = await getCustomRole(prisma, workspaceId, roleId);
+
+  const [profiles, invitations] = await Promise.all([
+    prisma.profile.count({ where: { roleId } }),
+    prisma.invitation.count({ where: { roleId } }),
+  ]);
+
+  if (profiles > 0 || invitations > 0) {
+    throw new ConflictError(
+      "Role is still assigned to members or pending invitations"
+    );
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.workspaceRole.delete({ where: { id: roleId } });
+    await recordAuditEvent(tx, {
+      workspaceId,
+      actorId,
+      action: "ROLE_DELETED",
+      before: roleSnapshot(role),
+    });
+  });
+}
+
+async function getCustomRole(
+  prisma: PrismaClient,
+  workspaceId: string,
+  roleId: string
+) {
+  const role = await prisma.workspaceRole.findFirst({
+    where: { id: roleId, workspaceId },
+  });
+
+  if (!role) {
+    throw new NotFoundError("Role not found");
+  }
+
+  if (role.isBuiltIn) {
+    throw new ValidationError("Built-in roles cannot be changed");
+  }
+
+  return role;
+}
@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { CREATE_ROLE_SCHEMA, UPDATE_ROLE_SCHEMA } from "./schema";
+
+export type CreateRoleInput = z.infer<typeof CREATE_ROLE_SCHEMA>;
+export type UpdateRoleInput = z.infer<typeof UPDATE_ROLE_SCHEMA>;
+
+export interface RoleResponse {
+  id: string;
+  name: string;
+  key: string | null;
+  permissions: string[];
+  isBuiltIn: boolean;
+  memberCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
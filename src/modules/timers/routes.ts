@@ -0,0 +1,76 @@
+import { FastifyPluginAsync } from "fastify";
+import { ZodTypeProvider } from "fastify-type-provider-zod";
+import { START_TIMER_SCHEMA, STOP_TIMER_SCHEMA } from "./schema";
+import { discardTimer, getTimer, startTimer, stopTimer } from "./service";
+
+const timerRoutes: FastifyPluginAsync = async (fastify) => {
+  const prisma = fastify.prisma;
+
+  // Get the running timer
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/current",
+    config: { permission: "activity:read" },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await getTimer(prisma, profileId);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Start a timer
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/start",
+    config: { permission: "activity:write" },
+    schema: {
+      body: START_TIMER_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await startTimer(prisma, profileId, request.body);
+
+      return reply.status(201).send({
+        data: result,
+      });
+    },
+  });
+
+  // Stop the timer, creating manual entries of up to a day each
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/stop",
+    config: { permission: "activity:write" },
+    schema: {
+      body: STOP_TIMER_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      const result = await stopTimer(prisma, profileId, request.body);
+
+      return reply.status(201).send({
+        data: result,
+      });
+    },
+  });
+
+  // Discard the timer
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "DELETE",
+    url: "/current",
+    config: { permission: "activity:write" },
+    handler: async (request, reply) => {
+      const { profileId = "" } = request.user || {};
+      await discardTimer(prisma, profileId);
+
+      return reply.send({
+        message: "Timer discarded successfully",
+      });
+    },
+  });
+};
+
+export default timerRoutes;
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+const DESCRIPTION_SCHEMA = z.string().trim().min(1).max(500);
+
+export const START_TIMER_SCHEMA = z.object({
+  projectId: z.number().int().min(1).nullable().optional(),
+  description: DESCRIPTION_SCHEMA,
+});
+
+// Fields set here replace the ones the timer was started with. The body
+// may be left out.
+export const STOP_TIMER_SCHEMA = z
+  .object({
+    projectId: z.number().int().min(1).nullable().optional(),
+    description: DESCRIPTION_SCHEMA.optional(),
+  })
+  .nullish()
+  .transform((input) => input ?? {});
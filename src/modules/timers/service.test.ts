@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import { PrismaClient } from "@prisma/client";
+import { stopTimer } from "./service";
+
+const HOUR = 60 * 60 * 1000;
+
+function createPrisma(start: Date, projectId: number | null = null) {
+  const prisma = {
+    timer: {
+      findUnique: vi.fn().mockResolvedValue({
+        id: "timer-1",
+        profileId: "profile-1",
+        projectId,
+        description: "Release",
+        start,
+      }),
+      delete: vi.fn(),
+    },
+    project: { findFirst: vi.fn().mockResolvedValue(null) },
+    activity: {
+      create: vi.fn(async ({ data }) => ({ id: "activity", ...data })),
+    },
+    $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(prisma)),
+  };
+  return prisma;
+}
+
+describe("stopTimer", () => {
+  it("logs a short timer as one entry", async () => {
+    const prisma = createPrisma(new Date(Date.now() - 2 * HOUR));
+
+    const entries = await stopTimer(
+      prisma as unknown as PrismaClient,
+      "profile-1",
+      {}
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].duration).toBe(2 * 60 * 60);
+  });
+
+  it("splits a timer left running for over a day", async () => {
+    const prisma = createPrisma(new Date(Date.now() - 30 * HOUR));
+
+    const entries = await stopTimer(
+      prisma as unknown as PrismaClient,
+      "profile-1",
+      {}
+    );
+
+    expect(entries.map((entry) => entry.duration)).toEqual([
+      24 * 60 * 60,
+      6 * 60 * 60,
+    ]);
+    expect(entries[1].timestamp).toEqual(
+      new Date(entries[0].timestamp.getTime() + 24 * HOUR)
+    );
+    expect(prisma.timer.delete).toHaveBeenCalledOnce();
+  });
+
+  it("logs nothing for a timer stopped right after its start", async () => {
+    const prisma = createPrisma(new Date(Date.now() - 200));
+
+    const entries = await stopTimer(
+      prisma as unknown as PrismaClient,
+      "profile-1",
+      {}
+    );
+
+    expect(entries).toEqual([]);
+    expect(prisma.activity.create).not.toHaveBeenCalled();
+    expect(prisma.timer.delete).toHaveBeenCalledOnce();
+  });
+
+  it("drops a project the member can no longer use", async () => {
+    const prisma = createPrisma(new Date(Date.now() - HOUR), 7);
+
+    const entries = await stopTimer(
+      prisma as unknown as PrismaClient,
+      "profile-1",
+      {}
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(prisma.activity.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ projectId: null }),
+    });
+  });
+});
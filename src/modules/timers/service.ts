@@ -0,0 +1,148 @@
+import { PrismaClient, Timer } from "@prisma/client";
+import { ConflictError, NotFoundError } from "../../plugins/error/plugin";
+import {
+  assertProjectAccess,
+  createManualEntry,
+  MAX_MANUAL_ENTRY_SECONDS,
+  secondsBetween,
+} from "../activities/service";
+import { ActivityResponse } from "../activities/types";
+import { StartTimerInput, StopTimerInput, TimerResponse } from "./types";
+
+/**
+ * Get the profile's running timer, if any
+ */
+export async function getTimer(
+  prisma: PrismaClient,
+  profileId: string
+): Promise<TimerResponse | null> {
+  const timer = await prisma.timer.findUnique({ where: { profileId } });
+
+  return timer && toTimerResponse(timer);
+}
+
+/**
+ * Start a timer. A profile runs at most one at a time.
+ */
+export async function startTimer(
+  prisma: PrismaClient,
+  profileId: string,
+  input: StartTimerInput
+): Promise<TimerResponse> {
+  const { projectId = null, description } = input;
+
+  if (projectId !== null) {
+    await assertProjectAccess(projectId, profileId, prisma);
+  }
+
+  const existing = await prisma.timer.findUnique({ where: { profileId } });
+  if (existing) {
+    throw new ConflictError("A timer is already running");
+  }
+
+  const timer = await prisma.timer.create({
+    data: { profileId, projectId, description, start: new Date() },
+  });
+
+  return toTimerResponse(timer);
+}
+
+/**
+ * Stop the running timer and log its time as manual entries. Timers left
+ * running for more than a day are split into consecutive entries of at
+ * most a day each, since a single manual entry can't be longer. A timer
+ * stopped right after its start logs nothing.
+ */
+export async function stopTimer(
+  prisma: PrismaClient,
+  profileId: string,
+  input: StopTimerInput
+): Promise<ActivityResponse[]> {
+  const timer = await findTimer(prisma, profileId);
+  const end = new Date();
+  const projectId =
+    input.projectId !== undefined
+      ? input.projectId
+      : await keptProjectId(prisma, profileId, timer.projectId);
+  const description = input.description || timer.description;
+
+  return prisma.$transaction(async (tx) => {
+    // Deleting first keeps a concurrent stop from logging the time twice
+    await tx.timer.delete({ where: { id: timer.id } });
+
+    const entries: ActivityResponse[] = [];
+    let start = timer.start;
+    while (secondsBetween(start, end) > 0) {
+      const entryEnd = new Date(
+        Math.min(
+          start.getTime() + MAX_MANUAL_ENTRY_SECONDS * 1000,
+          end.getTime()
+        )
+      );
+      entries.push(
+        await createManualEntry(
+          { start, end: entryEnd, projectId, description },
+          profileId,
+          tx
+        )
+      );
+      start = entryEnd;
+    }
+
+    return entries;
+  });
+}
+
+/**
+ * Discard the running timer without logging anything
+ */
+export async function discardTimer(
+  prisma: PrismaClient,
+  profileId: string
+): Promise<void> {
+  const timer = await findTimer(prisma, profileId);
+  await prisma.timer.delete({ where: { id: timer.id } });
+}
+
+/**
+ * The timer's project if it can still be assigned. A project deleted or
+ * left while the timer ran is dropped, so the timer can still be stopped.
+ */
+async function keptProjectId(
+  prisma: PrismaClient,
+  profileId: string,
+  projectId: number | null
+): Promise<number | null> {
+  if (projectId === null) return null;
+
+  try {
+    await assertProjectAccess(projectId, profileId, prisma);
+    return projectId;
+  } catch (error) {
+    if (error instanceof NotFoundError) return null;
+    throw error;
+  }
+}
+
+async function findTimer(
+  prisma: PrismaClient,
+  profileId: string
+): Promise<Timer> {
+  const timer = await prisma.timer.findUnique({ where: { profileId } });
+
+  if (!timer) {
+    throw new NotFoundError("No timer is running");
+  }
+
+  return timer;
+}
+
+function toTimerResponse(timer: Timer): TimerResponse {
+  return {
+    id: timer.id,
+    start: timer.start,
+    projectId: timer.projectId,
+    description: timer.description,
+    elapsed: Math.round((Date.now() - timer.start.getTime()) / 1000),
+  };
+}
@@ -0,0 +1,15 @@
+import { z } from "zod";
+import { START_TIMER_SCHEMA, STOP_TIMER_SCHEMA } from "./schema";
+
+export type StartTimerInput = z.infer<typeof START_TIMER_SCHEMA>;
+export type StopTimerInput = z.infer<typeof STOP_TIMER_SCHEMA>;
+
+// Timer interface
+export interface TimerResponse {
+  id: string;
+  start: Date;
+  projectId: number | null;
+  description: string;
+  // Seconds since start
+  elapsed: number;
+}
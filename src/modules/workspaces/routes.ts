@@ -17,7 +17,6 @@ import {
   getWorkspaceById,
   updateWorkspace,
   deleteWorkspace,
-  inviteUserToWorkspace,
   deleteUserFromWorkspace,
   updateUserRoleInWorkspace,
   createInvitation,
@@ -25,6 +24,8 @@ import {
   getPendingInvitations,
   deleteInvitation,
   getWorkspaceUsers,
+  getSsoDomain,
+  verifySsoDomain,
 } from "./service";
 
 const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
@@ -34,6 +35,7 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/",
+    config: { permission: "authenticated", allowPendingTwoFactor: true },
     schema: {
       body: CREATE_WORKSPACE_SCHEMA,
     },
@@ -53,6 +55,7 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/",
+    config: { permission: "authenticated", allowPendingTwoFactor: true },
     handler: async (request, reply) => {
       const { userId = "" } = request.user || {};
       const result = await getWorkspaces(prisma, userId);
@@ -67,6 +70,7 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/:id",
+    config: { permission: "authenticated" },
     schema: {
       params: WORKSPACE_ID_PARAM_SCHEMA,
     },
@@ -85,6 +89,7 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "PUT",
     url: "/:id",
+    config: { permission: "workspace:manage", workspaceParam: "id" },
     schema: {
       params: WORKSPACE_ID_PARAM_SCHEMA,
       body: UPDATE_WORKSPACE_SCHEMA,
@@ -103,17 +108,55 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
     },
   });
 
+  // Get the SSO domain and the DNS record proving it
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "GET",
+    url: "/:id/sso-domain",
+    config: { permission: "workspace:manage", workspaceParam: "id" },
+    schema: {
+      params: WORKSPACE_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { id } = request.params;
+      const result = await getSsoDomain(prisma, id);
+
+      return reply.send({
+        data: result,
+      });
+    },
+  });
+
+  // Verify the SSO domain through its DNS TXT record
+  fastify.withTypeProvider<ZodTypeProvider>().route({
+    method: "POST",
+    url: "/:id/sso-domain/verify",
+    config: { permission: "workspace:manage", workspaceParam: "id" },
+    schema: {
+      params: WORKSPACE_ID_PARAM_SCHEMA,
+    },
+    handler: async (request, reply) => {
+      const { id } = request.params;
+      const { userId = "" } = request.user || {};
+      const result = await verifySsoDomain(prisma, id, userId);
+
+      return reply.send({
+        data: result,
+        message: "SSO domain verified successfully",
+      });
+    },
+  });
+
   // Delete workspace
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "DELETE",
     url: "/:id",
+    config: { permission: "workspace:manage", workspaceParam: "id" },
     schema: {
       params: WORKSPACE_ID_PARAM_SCHEMA,
     },
     handler: async (request, reply) => {
       const { id } = request.params;
-      const { userId = "" } = request.user || {};
-      await deleteWorkspace(prisma, id, userId);
+      await deleteWorkspace(prisma, id);
 
       return reply.send({
         message: "Workspace deleted successfully",
@@ -121,10 +164,11 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
     },
   });
 
-  // Invite user to workspace (admin only)
+  // Invite user to workspace
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/:id/users",
+    config: { permission: "member:manage", workspaceParam: "id" },
     schema: {
       params: WORKSPACE_ID_PARAM_SCHEMA,
       body: CREATE_INVITATION_SCHEMA,
@@ -133,7 +177,14 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
       const { id } = request.params;
       const { userId = "" } = request.user || {};
       const input = request.body;
-      const result = await inviteUserToWorkspace(prisma, id, input, userId);
+      const result = await createInvitation(
+        prisma,
+        input,
+        userId,
+        id,
+        fastify.mailer,
+        request.permissions || [],
+      );
 
       return reply.status(201).send({
         data: result,
@@ -146,6 +197,7 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/users",
+    config: { permission: "member:read" },
     handler: async (request, reply) => {
       const { workspaceId = "" } = request.user || {};
       const result = await getWorkspaceUsers(prisma, workspaceId);
@@ -156,10 +208,11 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
     },
   });
 
-  // Update user role in workspace (admin only)
+  // Update user role in workspace
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "PUT",
     url: "/:workspaceId/users/:userId",
+    config: { permission: "member:manage", workspaceParam: "workspaceId" },
     schema: {
       params: z.object({
         workspaceId: z.string().min(1, "Workspace ID is required"),
@@ -177,6 +230,7 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
         targetUserId,
         input,
         userId,
+        request.permissions || [],
       );
 
       return reply.send({
@@ -186,10 +240,11 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
     },
   });
 
-  // Delete user from workspace (admin only)
+  // Delete user from workspace
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "DELETE",
     url: "/:id/users/:userId",
+    config: { permission: "member:manage", workspaceParam: "id" },
     schema: {
       params: DELETE_USER_PARAM_SCHEMA,
     },
@@ -214,6 +269,7 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/:id/invitations",
+    config: { permission: "member:manage", workspaceParam: "id" },
     schema: {
       params: WORKSPACE_ID_PARAM_SCHEMA,
       body: CREATE_INVITATION_SCHEMA,
@@ -222,7 +278,14 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
       const { id } = request.params;
       const { userId = "" } = request.user || {};
       const input = request.body;
-      const result = await createInvitation(prisma, input, userId, id);
+      const result = await createInvitation(
+        prisma,
+        input,
+        userId,
+        id,
+        fastify.mailer,
+        request.permissions || [],
+      );
 
       return reply.status(201).send({
         data: result,
@@ -235,6 +298,7 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "POST",
     url: "/invitations/accept",
+    config: { permission: "authenticated" },
     schema: {
       body: ACCEPT_INVITATION_SCHEMA,
     },
@@ -254,6 +318,7 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "GET",
     url: "/:id/invitations",
+    config: { permission: "member:manage", workspaceParam: "id" },
     schema: {
       params: WORKSPACE_ID_PARAM_SCHEMA,
       querystring: INVITATION_QUERY_SCHEMA,
@@ -273,6 +338,7 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.withTypeProvider<ZodTypeProvider>().route({
     method: "DELETE",
     url: "/:workspaceId/invitations/:id",
+    config: { permission: "member:manage", workspaceParam: "workspaceId" },
     schema: {
       params: z.object({
         workspaceId: z.string().min(1, "Workspace ID is required"),
@@ -281,7 +347,8 @@ const workspaceRoutes: FastifyPluginAsync = async (fastify) => {
     },
     handler: async (request, reply) => {
       const { workspaceId, id } = request.params;
-      await deleteInvitation(prisma, id, workspaceId);
+      const { userId = "" } = request.user || {};
+      await deleteInvitation(prisma, id, workspaceId, userId);
 
       return reply.send({
         message: "Invitation deleted successfully",
@@ -1,12 +1,22 @@
 import { z } from "zod/v4";
-import { Role } from "@prisma/client";
+import { TIMEZONE_SCHEMA } from "../auth/schema";
 
 export const CREATE_WORKSPACE_SCHEMA = z.object({
   name: z.string().min(1, "Workspace name is required").max(100),
 });
 
 export const UPDATE_WORKSPACE_SCHEMA = z.object({
-  name: z.string().min(1, "Workspace name is required").max(100),
+  name: z.string().min(1, "Workspace name is required").max(100).optional(),
+  requireAdminTwoFactor: z.boolean().optional(),
+  // Email domain whose SSO users may join this workspace, e.g. "acme.com"
+  ssoDomain: z
+    .string()
+    .regex(/^[a-z0-9.-]+\.[a-z]{2,}$/, "Invalid domain")
+    .nullable()
+    .optional(),
+  ssoAutoProvision: z.boolean().optional(),
+  // Default for members who haven't set their own timezone
+  timezone: TIMEZONE_SCHEMA.optional(),
 });
 
 export const WORKSPACE_ID_PARAM_SCHEMA = z.object({
@@ -19,13 +29,14 @@ export const DELETE_USER_PARAM_SCHEMA = z.object({
 });
 
 export const UPDATE_USER_ROLE_SCHEMA = z.object({
-  role: z.nativeEnum(Role),
+  roleId: z.string().min(1, "Role ID is required"),
 });
 
 // Invitation schemas
 export const CREATE_INVITATION_SCHEMA = z.object({
   email: z.email("Invalid email address"),
-  role: z.enum(Role).default(Role.USER),
+  // Defaults to the built-in member role
+  roleId: z.string().min(1).optional(),
 });
 
 export const ACCEPT_INVITATION_SCHEMA = z.object({
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from "vitest";
+import { PrismaClient } from "@prisma/client";
+import { deleteUserFromWorkspace, updateUserRoleInWorkspace } from "./service";
+import { BUILT_IN_ROLES } from "../../plugins/auth/permissions";
+
+const ADMIN_ROLE = {
+  id: "role-admin",
+  key: "ADMIN",
+  name: "Admin",
+  permissions: BUILT_IN_ROLES.ADMIN.permissions,
+};
+const MEMBER_ROLE = {
+  id: "role-member",
+  key: "USER",
+  name: "Member",
+  permissions: BUILT_IN_ROLES.USER.permissions,
+};
+// A custom role allowed to manage members but not roles
+const PEOPLE_ROLE_PERMISSIONS = [
+  ...BUILT_IN_ROLES.USER.permissions,
+  "member:manage",
+];
+
+function createPrisma(
+  currentRole: typeof ADMIN_ROLE,
+  newRole: typeof ADMIN_ROLE,
+  options: { ownerId?: string; otherAdmins?: number } = {}
+) {
+  const profile = {
+    id: "profile-2",
+    userId: "user-2",
+    name: "Target",
+    roleId: currentRole.id,
+    role: currentRole,
+    user: { id: "user-2", email: "target@example.com" },
+    workspace: { ownerId: options.ownerId ?? "user-1" },
+  };
+  const prisma = {
+    profile: {
+      findUnique: vi.fn().mockResolvedValue(profile),
+      update: vi.fn().mockResolvedValue({ ...profile, role: newRole }),
+      delete: vi.fn(),
+    },
+    workspaceRole: { findFirst: vi.fn().mockResolvedValue(newRole) },
+    auditEvent: { create: vi.fn() },
+    // The admins locked in the transaction, the target among them
+    $queryRaw: vi.fn().mockResolvedValue([
+      { userId: "user-2" },
+      ...Array.from({ length: options.otherAdmins ?? 1 }, (_, i) => ({
+        userId: `admin-${i}`,
+      })),
+    ]),
+    $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(prisma)),
+  };
+  return prisma;
+}
+
+function updateRole(
+  prisma: ReturnType<typeof createPrisma>,
+  roleId: string,
+  actorPermissions: string[]
+) {
+  return updateUserRoleInWorkspace(
+    prisma as unknown as PrismaClient,
+    "workspace-1",
+    "user-2",
+    { roleId },
+    "user-1",
+    actorPermissions
+  );
+}
+
+describe("updateUserRoleInWorkspace", () => {
+  it("rejects granting a role with permissions the actor lacks", async () => {
+    const prisma = createPrisma(MEMBER_ROLE, ADMIN_ROLE);
+
+    await expect(
+      updateRole(prisma, ADMIN_ROLE.id, PEOPLE_ROLE_PERMISSIONS)
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(prisma.profile.update).not.toHaveBeenCalled();
+  });
+
+  it("rejects changing the role of someone holding more than the actor", async () => {
+    const prisma = createPrisma(ADMIN_ROLE, MEMBER_ROLE);
+
+    await expect(
+      updateRole(prisma, MEMBER_ROLE.id, PEOPLE_ROLE_PERMISSIONS)
+    ).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  it("lets an admin assign any role", async () => {
+    const prisma = createPrisma(MEMBER_ROLE, ADMIN_ROLE);
+
+    const result = await updateRole(
+      prisma,
+      ADMIN_ROLE.id,
+      ADMIN_ROLE.permissions
+    );
+
+    expect(result.role).toBe("Admin");
+  });
+
+  it("refuses to demote the workspace owner", async () => {
+    const prisma = createPrisma(ADMIN_ROLE, MEMBER_ROLE, { ownerId: "user-2" });
+
+    await expect(
+      updateRole(prisma, MEMBER_ROLE.id, ADMIN_ROLE.permissions)
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it("refuses to demote the last admin", async () => {
+    const prisma = createPrisma(ADMIN_ROLE, MEMBER_ROLE, { otherAdmins: 0 });
+
+    await expect(
+      updateRole(prisma, MEMBER_ROLE.id, ADMIN_ROLE.permissions)
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(prisma.profile.update).not.toHaveBeenCalled();
+  });
+
+  it("counts the other admins under a lock in the transaction", async () => {
+    const prisma = createPrisma(ADMIN_ROLE, MEMBER_ROLE);
+
+    await updateRole(prisma, MEMBER_ROLE.id, ADMIN_ROLE.permissions);
+
+    const [strings] = prisma.$queryRaw.mock.calls[0];
+    expect(strings.join("?")).toMatch(/FOR UPDATE OF p/);
+    expect(prisma.$queryRaw.mock.invocationCallOrder[0]).toBeGreaterThan(
+      prisma.$transaction.mock.invocationCallOrder[0]
+    );
+  });
+});
+
+describe("deleteUserFromWorkspace", () => {
+  it("refuses to remove the last admin", async () => {
+    const prisma = createPrisma(ADMIN_ROLE, ADMIN_ROLE, { otherAdmins: 0 });
+
+    await expect(
+      deleteUserFromWorkspace(
+        prisma as unknown as PrismaClient,
+        { id: "workspace-1", userId: "user-2" },
+        "user-1"
+      )
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(prisma.profile.delete).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,9 @@
-import { PrismaClient, Role } from "@prisma/client";
+import {
+  Prisma,
+  PrismaClient,
+  Workspace,
+  WorkspaceRole,
+} from "@prisma/client";
 import {
   CreateWorkspaceInput,
   UpdateWorkspaceInput,
@@ -11,14 +16,21 @@ import {
   InvitationQuery,
   WorkspaceUserResponse,
   WorkspaceWithProfilesResponse,
+  SsoDomainResponse,
 } from "./types";
 import {
   AppError,
+  AuthorizationError,
   ConflictError,
   NotFoundError,
   ValidationError,
 } from "../../plugins/error/plugin";
-import { randomUUID } from "crypto";
+import { randomBytes, randomUUID } from "crypto";
+import { resolveTxt } from "dns/promises";
+import { MailTransport } from "../../plugins/mail/transport";
+import { invitationMail } from "../../plugins/mail/templates";
+import { builtInRolesData, getBuiltInRole } from "../roles/service";
+import { recordAuditEvent } from "../audit/service";
 
 /**
  * Create a new workspace
@@ -34,33 +46,40 @@ export async function createWorkspace(
   const user = await prisma.user.findUnique({ where: { id: userId } });
   const userName = user?.name || "Unknown";
 
-  const workspace = await prisma.workspace.create({
-    data: {
-      name,
-      ownerId: userId,
-      profiles: {
-        create: {
-          userId,
-          role: Role.ADMIN,
-          name: userName,
-        },
+  const { workspace, profile } = await prisma.$transaction(async (tx) => {
+    const workspace = await tx.workspace.create({
+      data: {
+        name,
+        ownerId: userId,
+        roles: { create: builtInRolesData() },
       },
-    },
-    include: {
-      profiles: {
-        where: { userId },
+    });
+
+    const adminRole = await getBuiltInRole(tx, workspace.id, "ADMIN");
+    const profile = await tx.profile.create({
+      data: {
+        workspaceId: workspace.id,
+        userId,
+        roleId: adminRole.id,
+        name: userName,
       },
-    },
+      include: { role: true },
+    });
+
+    return { workspace, profile };
   });
 
   return {
     id: workspace.id,
     name: workspace.name,
-    role: workspace.profiles[0].role,
+    role: profile.role.name,
+    roleId: profile.roleId,
     createdAt: workspace.createdAt,
     updatedAt: workspace.updatedAt,
-    isDefault: workspace.profiles[0].isDefault,
+    isDefault: profile.isDefault,
     workspaceName: workspace.name,
+    requireAdminTwoFactor: workspace.requireAdminTwoFactor,
+    timezone: workspace.timezone,
   };
 }
 
@@ -75,6 +94,7 @@ export async function getWorkspaces(
     where: { userId },
     include: {
       workspace: true,
+      role: true,
     },
     orderBy: { id: "asc" },
   });
@@ -82,11 +102,14 @@ export async function getWorkspaces(
   return profiles.map((profile) => ({
     id: profile.workspace.id,
     name: profile.workspace.name,
-    role: profile.role,
+    role: profile.role.name,
+    roleId: profile.roleId,
     createdAt: profile.workspace.createdAt,
     updatedAt: profile.workspace.updatedAt,
     isDefault: profile.isDefault,
     workspaceName: profile.workspace.name,
+    requireAdminTwoFactor: profile.workspace.requireAdminTwoFactor,
+    timezone: profile.workspace.timezone,
   }));
 }
 
@@ -108,6 +131,7 @@ export async function getWorkspaceById(
     },
     include: {
       workspace: true,
+      role: true,
     },
   });
 
@@ -129,6 +153,7 @@ export async function getWorkspaceById(
           email: true,
         },
       },
+      role: true,
     },
     orderBy: { joinedAt: "asc" },
   });
@@ -136,11 +161,14 @@ export async function getWorkspaceById(
   const workspace: WorkspaceResponse = {
     id: profile.workspace.id,
     name: profile.workspace.name,
-    role: profile.role,
+    role: profile.role.name,
+    roleId: profile.roleId,
     createdAt: profile.workspace.createdAt,
     updatedAt: profile.workspace.updatedAt,
     isDefault: profile.isDefault,
     workspaceName: profile.workspace.name,
+    requireAdminTwoFactor: profile.workspace.requireAdminTwoFactor,
+    timezone: profile.workspace.timezone,
   };
 
   const profileData: WorkspaceUserResponse[] = profiles.map((p) => ({
@@ -148,7 +176,8 @@ export async function getWorkspaceById(
     userId: p.userId,
     name: p.name,
     email: p.user.email,
-    role: p.role,
+    role: p.role.name,
+    roleId: p.roleId,
     joinedAt: p.joinedAt,
     isDefault: p.isDefault,
     isVerified: p.isVerified,
@@ -169,77 +198,208 @@ export async function updateWorkspace(
   input: UpdateWorkspaceInput,
   userId: string,
 ): Promise<WorkspaceResponse> {
-  // Verify user is admin of the workspace
   const profile = await prisma.profile.findUnique({
     where: {
       workspaceId_userId: {
         workspaceId: id,
         userId,
       },
-      role: Role.ADMIN,
+    },
+    include: {
+      user: true,
+      role: true,
+      workspace: true,
     },
   });
 
   if (!profile) {
-    throw new AppError(
-      "You are not authorized to update this workspace",
-      403,
-      "FORBIDDEN",
+    throw new NotFoundError(
+      "Workspace not found or you are not a member of this workspace",
     );
   }
 
-  const workspace = await prisma.workspace.update({
-    where: { id },
-    data: {
-      name: input.name,
-    },
-  });
+  // Avoid locking the admin out of their own workspace
+  if (input.requireAdminTwoFactor && !profile.user.totpEnabledAt) {
+    throw new ValidationError(
+      "Enable two-factor authentication on your account before requiring it for admins",
+    );
+  }
+
+  // A new domain has to be proven again before SSO users can join
+  const domainChanged =
+    input.ssoDomain !== undefined &&
+    input.ssoDomain !== profile.workspace.ssoDomain;
+
+  const workspace = await prisma.$transaction(async (tx) => {
+    const workspace = await tx.workspace.update({
+      where: { id },
+      data: {
+        name: input.name,
+        requireAdminTwoFactor: input.requireAdminTwoFactor,
+        ssoAutoProvision: input.ssoAutoProvision,
+        timezone: input.timezone,
+        ...(domainChanged && {
+          ssoDomain: input.ssoDomain,
+          ssoDomainToken: input.ssoDomain
+            ? randomBytes(16).toString("hex")
+            : null,
+          ssoDomainVerifiedAt: null,
+        }),
+      },
+    });
 
-  // We need to return role, but update doesn't give context of user.
-  // This function assumes caller checked permissions.
-  // We can return "ADMIN" or fetch profile.
-  // Let's just return minimal info or fetch profile if needed.
-  // For simplicity, we might need to change return type or fetch profile.
-  // But wait, the response type requires role.
-  // Let's assume the user updating is ADMIN.
+    await recordAuditEvent(tx, {
+      workspaceId: id,
+      actorId: userId,
+      action: "WORKSPACE_UPDATED",
+      before: workspaceSettings(profile.workspace),
+      after: workspaceSettings(workspace),
+    });
+
+    return workspace;
+  });
 
   return {
     id: workspace.id,
     name: workspace.name,
-    role: Role.ADMIN, // Only admins can update
+    role: profile.role.name,
+    roleId: profile.roleId,
     createdAt: workspace.createdAt,
     updatedAt: workspace.updatedAt,
     isDefault: profile.isDefault,
     workspaceName: workspace.name,
+    requireAdminTwoFactor: workspace.requireAdminTwoFactor,
+    timezone: workspace.timezone,
+  };
+}
+
+function workspaceSettings(workspace: Workspace) {
+  return {
+    name: workspace.name,
+    requireAdminTwoFactor: workspace.requireAdminTwoFactor,
+    ssoDomain: workspace.ssoDomain,
+    ssoDomainVerifiedAt: workspace.ssoDomainVerifiedAt,
+    ssoAutoProvision: workspace.ssoAutoProvision,
+    timezone: workspace.timezone,
+  };
+}
+
+const SSO_DOMAIN_RECORD_PREFIX = "_samay-verification";
+
+function toSsoDomainResponse(workspace: Workspace): SsoDomainResponse {
+  const { ssoDomain, ssoDomainToken, ssoDomainVerifiedAt } = workspace;
+
+  return {
+    domain: ssoDomain,
+    verifiedAt: ssoDomainVerifiedAt,
+    record:
+      ssoDomain && ssoDomainToken
+        ? {
+            type: "TXT",
+            name: `${SSO_DOMAIN_RECORD_PREFIX}.${ssoDomain}`,
+            value: `samay-verification=${ssoDomainToken}`,
+          }
+        : null,
   };
 }
 
 /**
- * Delete a workspace
+ * Get the SSO domain of a workspace and the DNS record proving it
  */
-export async function deleteWorkspace(
+export async function getSsoDomain(
   prisma: PrismaClient,
-  id: string,
-  userId: string,
-): Promise<void> {
-  const profile = await prisma.profile.findUnique({
-    where: {
-      workspaceId_userId: {
-        workspaceId: id,
-        userId: userId,
-      },
-      role: Role.ADMIN,
-    },
+  workspaceId: string,
+): Promise<SsoDomainResponse> {
+  const workspace = await prisma.workspace.findUniqueOrThrow({
+    where: { id: workspaceId },
   });
 
-  if (!profile) {
-    throw new AppError(
-      "You are not authorized to delete this workspace",
-      403,
-      "FORBIDDEN",
+  return toSsoDomainResponse(workspace);
+}
+
+/**
+ * Verify the SSO domain by looking up its TXT record
+ */
+export async function verifySsoDomain(
+  prisma: PrismaClient,
+  workspaceId: string,
+  actorId: string,
+): Promise<SsoDomainResponse> {
+  const workspace = await prisma.workspace.findUniqueOrThrow({
+    where: { id: workspaceId },
+  });
+  const { record } = toSsoDomainResponse(workspace);
+
+  if (!record) {
+    throw new ValidationError("Set an SSO domain before verifying it");
+  }
+
+  if (workspace.ssoDomainVerifiedAt) {
+    return toSsoDomainResponse(workspace);
+  }
+
+  const txtRecords = await resolveTxt(record.name).catch(() => []);
+  if (!txtRecords.some((chunks) => chunks.join("") === record.value)) {
+    throw new ValidationError(
+      `TXT record ${record.name} with value ${record.value} not found`,
     );
   }
 
+  const verified = await prisma.$transaction(async (tx) => {
+    const verified = await tx.workspace
+      .update({
+        where: { id: workspaceId },
+        data: { ssoDomainVerifiedAt: new Date() },
+      })
+      .catch((e) => {
+        if (e.code === "P2002") {
+          throw new ConflictError(
+            "This domain is already verified by another workspace",
+          );
+        }
+        throw e;
+      });
+
+    await recordAuditEvent(tx, {
+      workspaceId,
+      actorId,
+      action: "WORKSPACE_UPDATED",
+      before: workspaceSettings(workspace),
+      after: workspaceSettings(verified),
+    });
+
+    return verified;
+  });
+
+  return toSsoDomainResponse(verified);
+}
+
+/**
+ * Members may only hand out roles whose permissions they hold themselves,
+ * otherwise member:manage would be enough to grant Admin
+ */
+function assertAssignableRole(
+  role: WorkspaceRole,
+  actorPermissions: string[],
+) {
+  const missing = role.permissions.filter(
+    (permission) => !actorPermissions.includes(permission),
+  );
+
+  if (missing.length > 0) {
+    throw new AuthorizationError(
+      "You cannot assign a role with permissions you do not hold",
+    );
+  }
+}
+
+/**
+ * Delete a workspace
+ */
+export async function deleteWorkspace(
+  prisma: PrismaClient,
+  id: string,
+): Promise<void> {
   await prisma.workspace.delete({
     where: { id },
   });
@@ -253,8 +413,22 @@ export async function createInvitation(
   input: CreateInvitationInput,
   inviterId: string,
   workspaceId: string,
+  mailer: MailTransport,
+  inviterPermissions: string[],
 ): Promise<InvitationResponse> {
-  const { email, role = "USER" } = input;
+  const { email } = input;
+
+  const role = input.roleId
+    ? await prisma.workspaceRole.findFirst({
+        where: { id: input.roleId, workspaceId },
+      })
+    : await getBuiltInRole(prisma, workspaceId, "USER");
+
+  if (!role) {
+    throw new NotFoundError("Role not found");
+  }
+
+  assertAssignableRole(role, inviterPermissions);
 
   // Check if user is already a member of the workspace
   const existingMember = await prisma.profile.findFirst({
@@ -297,7 +471,7 @@ export async function createInvitation(
     .create({
       data: {
         email,
-        role,
+        roleId: role.id,
         workspaceId,
         inviterId,
         token,
@@ -310,6 +484,11 @@ export async function createInvitation(
             email: true,
           },
         },
+        workspace: {
+          select: {
+            name: true,
+          },
+        },
       },
     })
     .catch((e) => {
@@ -319,44 +498,32 @@ export async function createInvitation(
       throw e;
     });
 
-  // TODO: Send email
-  // TODO: Send email
-  const baseUrl = process.env.APP_URL || "http://localhost:3000";
-  console.log(`Invitation link: ${baseUrl}/accept-invite?token=${token}`);
-
-  return invitation;
-}
-
-/**
- * Invite a user to a workspace (admin only)
- */
-export async function inviteUserToWorkspace(
-  prisma: PrismaClient,
-  workspaceId: string,
-  input: CreateInvitationInput,
-  inviterId: string,
-): Promise<InvitationResponse> {
-  // Verify inviter is admin of the workspace
-  const profile = await prisma.profile.findUnique({
-    where: {
-      workspaceId_userId: {
-        workspaceId,
-        userId: inviterId,
-      },
-      role: Role.ADMIN,
-    },
+  const invitee = await prisma.user.findUnique({ where: { email } });
+  await recordAuditEvent(prisma, {
+    workspaceId,
+    actorId: inviterId,
+    action: "MEMBER_INVITED",
+    targetId: invitee?.id,
+    after: { email, roleId: role.id, role: role.name },
   });
 
-  if (!profile) {
-    throw new AppError(
-      "You are not authorized to invite users to this workspace",
-      403,
-      "FORBIDDEN",
+  const { workspace, ...invitationResponse } = invitation;
+
+  // The invitation is saved either way, its link can be shared by hand
+  try {
+    await mailer.send(
+      invitationMail(
+        email,
+        token,
+        workspace.name,
+        invitation.inviter.name || invitation.inviter.email,
+      ),
     );
+  } catch (error) {
+    console.error("Failed to send invitation email:", error);
   }
 
-  // Use the invitation service
-  return await createInvitation(prisma, input, inviterId, workspaceId);
+  return { ...invitationResponse, role: role.name };
 }
 
 /**
@@ -373,6 +540,7 @@ export async function acceptInvitation(
     // Get the logged-in user
     const user = await tx.user.findUnique({
       where: { id: userId },
+      include: { profiles: { where: { isVerified: true }, take: 1 } },
     });
 
     if (!user) {
@@ -421,11 +589,20 @@ export async function acceptInvitation(
       data: {
         userId: user.id,
         workspaceId: invitation.workspaceId,
-        role: invitation.role,
+        roleId: invitation.roleId,
         name: user.name || "Unknown",
+        isVerified: user.profiles.length > 0,
       },
     });
 
+    await recordAuditEvent(tx, {
+      workspaceId: invitation.workspaceId,
+      actorId: user.id,
+      action: "MEMBER_JOINED",
+      targetId: user.id,
+      after: { roleId: invitation.roleId, invitedBy: invitation.inviterId },
+    });
+
     // Delete invitation
     await tx.invitation.delete({
       where: { id: invitation.id },
@@ -460,13 +637,17 @@ export async function getPendingInvitations(
           email: true,
         },
       },
+      role: { select: { name: true } },
     },
     orderBy: { createdAt: "desc" },
     skip,
     take: limit,
   });
 
-  return invitations;
+  return invitations.map(({ role, ...invitation }) => ({
+    ...invitation,
+    role: role.name,
+  }));
 }
 
 /**
@@ -476,17 +657,27 @@ export async function deleteInvitation(
   prisma: PrismaClient,
   id: string,
   workspaceId: string,
+  actorId: string,
 ) {
-  await prisma.invitation.delete({
-    where: {
-      id,
+  await prisma.$transaction(async (tx) => {
+    const invitation = await tx.invitation.delete({
+      where: {
+        id,
+        workspaceId,
+      },
+    });
+
+    await recordAuditEvent(tx, {
       workspaceId,
-    },
+      actorId,
+      action: "INVITATION_REVOKED",
+      before: { email: invitation.email, roleId: invitation.roleId },
+    });
   });
 }
 
 /**
- * Delete a user from a workspace (admin only)
+ * Delete a user from a workspace
  */
 export async function deleteUserFromWorkspace(
   prisma: PrismaClient,
@@ -495,25 +686,6 @@ export async function deleteUserFromWorkspace(
 ): Promise<void> {
   const { userId, id } = input;
 
-  // Verify requester is admin of the workspace
-  const adminProfile = await prisma.profile.findUnique({
-    where: {
-      workspaceId_userId: {
-        workspaceId: id,
-        userId: adminId,
-      },
-      role: Role.ADMIN,
-    },
-  });
-
-  if (!adminProfile) {
-    throw new AppError(
-      "You are not authorized to remove users from this workspace",
-      403,
-      "FORBIDDEN",
-    );
-  }
-
   // Prevent admin from removing themselves
   if (userId === adminId) {
     throw new AppError(
@@ -531,6 +703,7 @@ export async function deleteUserFromWorkspace(
         userId,
       },
     },
+    include: { role: true },
   });
 
   if (!userProfile) {
@@ -541,19 +714,66 @@ export async function deleteUserFromWorkspace(
     );
   }
 
-  // Delete the profile (this will cascade delete related data)
-  await prisma.profile.delete({
-    where: {
-      workspaceId_userId: {
-        workspaceId: id,
+  await prisma.$transaction(async (tx) => {
+    if (userProfile.role.key === "ADMIN") {
+      await assertOtherAdmin(
+        tx,
+        id,
         userId,
+        "The last admin of a workspace cannot be removed",
+      );
+    }
+
+    // Delete the profile (this will cascade delete related data)
+    await tx.profile.delete({
+      where: {
+        workspaceId_userId: {
+          workspaceId: id,
+          userId,
+        },
       },
-    },
+    });
+
+    await recordAuditEvent(tx, {
+      workspaceId: id,
+      actorId: adminId,
+      action: "MEMBER_REMOVED",
+      targetId: userId,
+      before: {
+        profileId: userProfile.id,
+        name: userProfile.name,
+        roleId: userProfile.roleId,
+        role: userProfile.role.name,
+      },
+    });
   });
 }
 
 /**
- * Update a user's role in a workspace (admin only)
+ * Check the workspace keeps an admin besides the given user. The admins'
+ * profiles stay locked until the transaction ends, so two admins demoting
+ * or removing each other at once can't both pass.
+ */
+async function assertOtherAdmin(
+  tx: Prisma.TransactionClient,
+  workspaceId: string,
+  userId: string,
+  message: string,
+): Promise<void> {
+  const admins = await tx.$queryRaw<{ userId: string }[]>`
+    SELECT p."userId" FROM profiles p
+    JOIN workspace_roles r ON r.id = p."roleId"
+    WHERE p."workspaceId" = ${workspaceId} AND r.key = 'ADMIN'
+    FOR UPDATE OF p
+  `;
+
+  if (!admins.some((admin) => admin.userId !== userId)) {
+    throw new ValidationError(message);
+  }
+}
+
+/**
+ * Update a user's role in a workspace
  */
 export async function updateUserRoleInWorkspace(
   prisma: PrismaClient,
@@ -561,27 +781,9 @@ export async function updateUserRoleInWorkspace(
   targetUserId: string,
   input: UpdateUserRoleInput,
   adminId: string,
+  adminPermissions: string[],
 ): Promise<WorkspaceUserResponse> {
-  const { role } = input;
-
-  // Verify requester is admin of the workspace
-  const adminProfile = await prisma.profile.findUnique({
-    where: {
-      workspaceId_userId: {
-        workspaceId,
-        userId: adminId,
-      },
-      role: Role.ADMIN,
-    },
-  });
-
-  if (!adminProfile) {
-    throw new AppError(
-      "You are not authorized to update users in this workspace",
-      403,
-      "FORBIDDEN",
-    );
-  }
+  const { roleId } = input;
 
   // Prevent admin from changing their own role
   if (targetUserId === adminId) {
@@ -607,6 +809,8 @@ export async function updateUserRoleInWorkspace(
           email: true,
         },
       },
+      role: true,
+      workspace: { select: { ownerId: true } },
     },
   });
 
@@ -618,25 +822,67 @@ export async function updateUserRoleInWorkspace(
     );
   }
 
-  // Update the user's role
-  const updatedProfile = await prisma.profile.update({
-    where: {
-      workspaceId_userId: {
+  const role = await prisma.workspaceRole.findFirst({
+    where: { id: roleId, workspaceId },
+  });
+
+  if (!role) {
+    throw new NotFoundError("Role not found");
+  }
+
+  // Nor may they change the role of someone holding more than they do
+  assertAssignableRole(userProfile.role, adminPermissions);
+  assertAssignableRole(role, adminPermissions);
+
+  const demotesAdmin =
+    userProfile.role.key === "ADMIN" && role.key !== "ADMIN";
+
+  if (demotesAdmin && userProfile.workspace.ownerId === targetUserId) {
+    throw new ValidationError("The workspace owner cannot be demoted");
+  }
+
+  const updatedProfile = await prisma.$transaction(async (tx) => {
+    if (demotesAdmin) {
+      await assertOtherAdmin(
+        tx,
         workspaceId,
-        userId: targetUserId,
+        targetUserId,
+        "The last admin of a workspace cannot be demoted",
+      );
+    }
+
+    // Update the user's role
+    const updatedProfile = await tx.profile.update({
+      where: {
+        workspaceId_userId: {
+          workspaceId,
+          userId: targetUserId,
+        },
       },
-    },
-    data: {
-      role,
-    },
-    include: {
-      user: {
-        select: {
-          id: true,
-          email: true,
+      data: {
+        roleId,
+      },
+      include: {
+        user: {
+          select: {
+            id: true,
+            email: true,
+          },
         },
+        role: true,
       },
-    },
+    });
+
+    await recordAuditEvent(tx, {
+      workspaceId,
+      actorId: adminId,
+      action: "MEMBER_ROLE_CHANGED",
+      targetId: targetUserId,
+      before: { roleId: userProfile.roleId, role: userProfile.role.name },
+      after: { roleId: role.id, role: role.name },
+    });
+
+    return updatedProfile;
   });
 
   return {
@@ -644,7 +890,8 @@ export async function updateUserRoleInWorkspace(
     userId: updatedProfile.userId,
     name: updatedProfile.name,
     email: updatedProfile.user.email,
-    role: updatedProfile.role,
+    role: updatedProfile.role.name,
+    roleId: updatedProfile.roleId,
     joinedAt: updatedProfile.joinedAt,
     isDefault: updatedProfile.isDefault,
     isVerified: updatedProfile.isVerified,
@@ -669,6 +916,7 @@ export async function getWorkspaceUsers(
           email: true,
         },
       },
+      role: true,
     },
     orderBy: { joinedAt: "asc" },
   });
@@ -678,7 +926,8 @@ export async function getWorkspaceUsers(
     userId: profile.userId,
     name: profile.name,
     email: profile.user.email,
-    role: profile.role,
+    role: profile.role.name,
+    roleId: profile.roleId,
     joinedAt: profile.joinedAt,
     isDefault: profile.isDefault,
     isVerified: profile.isVerified,
@@ -21,16 +21,28 @@ export interface WorkspaceResponse {
   id: string;
   name: string;
   role: string;
+  roleId: string;
   createdAt: Date;
   updatedAt: Date;
   isDefault: boolean;
   workspaceName: string;
+  requireAdminTwoFactor: boolean;
+  timezone: string;
+}
+
+export interface SsoDomainResponse {
+  domain: string | null;
+  // SSO sign-ups only join the workspace once the domain is verified
+  verifiedAt: Date | null;
+  // DNS record to publish on the domain
+  record: { type: "TXT"; name: string; value: string } | null;
 }
 
 export interface InvitationResponse {
   id: string;
   email: string;
   role: string;
+  roleId: string;
   token: string;
   expiresAt: Date;
   inviter: {
@@ -46,6 +58,7 @@ export interface WorkspaceUserResponse {
   name: string;
   email: string;
   role: string;
+  roleId: string;
   joinedAt: Date;
   isDefault: boolean;
   isVerified: boolean;
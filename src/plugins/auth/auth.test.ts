@@ -0,0 +1,173 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import Fastify from "fastify";
+import errorHandlerPlugin from "../error/plugin";
+import authMiddleware from "./auth";
+import { DEVICE_KEY_PREFIX, hashToken, signAccessToken } from "./tokens";
+import { RoutePolicy } from "./permissions";
+
+const DEVICE_KEY = `${DEVICE_KEY_PREFIX}test-key`;
+const MEMBER_PERMISSIONS = [
+  "activity:read",
+  "activity:write",
+  "activity:ingest",
+];
+
+function createDevice(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "device-1",
+    name: "Laptop",
+    keyHash: hashToken(DEVICE_KEY),
+    scopes: ["activity:ingest"],
+    revokedAt: null,
+    profileId: "profile-1",
+    profile: {
+      userId: "user-1",
+      workspaceId: "workspace-1",
+      roleId: "role-1",
+      role: { permissions: MEMBER_PERMISSIONS },
+    },
+    ...overrides,
+  };
+}
+
+async function buildApp(device: ReturnType<typeof createDevice> | null) {
+  const app = Fastify();
+  app.decorate("prisma", {
+    device: {
+      findUnique: vi.fn(async ({ where }: { where: { keyHash: string } }) =>
+        device && device.keyHash === where.keyHash ? device : null
+      ),
+      update: vi.fn(),
+    },
+    profile: {
+      findUnique: vi.fn().mockResolvedValue({
+        userId: "user-1",
+        workspaceId: "workspace-1",
+        roleId: "role-1",
+        role: { permissions: MEMBER_PERMISSIONS },
+        workspace: { requireAdminTwoFactor: false },
+      }),
+    },
+  } as never);
+  await app.register(errorHandlerPlugin);
+  await app.register(authMiddleware);
+
+  const routes: Array<[string, RoutePolicy]> = [
+    ["/ingest", "activity:ingest"],
+    ["/write", "activity:write"],
+    ["/read", ["activity:read", "activity:write"]],
+    ["/me", "authenticated"],
+  ];
+  for (const [url, permission] of routes) {
+    app.post(url, { config: { permission } }, async (request) => ({
+      permissions: request.permissions,
+    }));
+  }
+  return app;
+}
+
+function post(
+  app: Awaited<ReturnType<typeof buildApp>>,
+  url: string,
+  token: string
+) {
+  return app.inject({
+    method: "POST",
+    url,
+    headers: { authorization: `Bearer ${token}` },
+  });
+}
+
+describe("auth middleware with device API keys", () => {
+  beforeEach(() => {
+    // Denials are logged as client errors
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("lets a key reach ingestion routes with only the ingest permission", async () => {
+    const app = await buildApp(createDevice());
+
+    const response = await post(app, "/ingest", DEVICE_KEY);
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ permissions: ["activity:ingest"] });
+  });
+
+  it.each(["/write", "/read", "/me"])("denies a key on %s", async (url) => {
+    const app = await buildApp(createDevice());
+
+    const response = await post(app, url, DEVICE_KEY);
+
+    expect(response.statusCode).toBe(403);
+  });
+
+  it("ignores scopes other than ingestion on older keys", async () => {
+    const app = await buildApp(
+      createDevice({ scopes: ["activity:write", "activity:read"] })
+    );
+
+    expect((await post(app, "/write", DEVICE_KEY)).statusCode).toBe(403);
+    expect((await post(app, "/ingest", DEVICE_KEY)).statusCode).toBe(403);
+  });
+
+  it("needs the profile's role to grant ingestion", async () => {
+    const device = createDevice();
+    device.profile.role = { permissions: ["activity:read"] };
+    const app = await buildApp(device);
+
+    expect((await post(app, "/ingest", DEVICE_KEY)).statusCode).toBe(403);
+  });
+
+  it.each([
+    ["username", `${DEVICE_KEY}:`],
+    ["password", `x:${DEVICE_KEY}`],
+  ])("accepts a key as the Basic %s", async (_, credentials) => {
+    const app = await buildApp(createDevice());
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/ingest",
+      headers: {
+        authorization: `Basic ${Buffer.from(credentials).toString("base64")}`,
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+  });
+
+  it("rejects Basic credentials without a key", async () => {
+    const app = await buildApp(createDevice());
+
+    const response = await app.inject({
+      method: "POST",
+      url: "/ingest",
+      headers: {
+        authorization: `Basic ${Buffer.from("jane:secret").toString("base64")}`,
+      },
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+
+  it("rejects revoked and unknown keys", async () => {
+    const app = await buildApp(createDevice({ revokedAt: new Date() }));
+
+    expect((await post(app, "/ingest", DEVICE_KEY)).statusCode).toBe(401);
+    expect(
+      (await post(app, "/ingest", `${DEVICE_KEY_PREFIX}other`)).statusCode
+    ).toBe(401);
+  });
+
+  it("still lets signed-in users write activities", async () => {
+    const app = await buildApp(null);
+    const token = signAccessToken({
+      userId: "user-1",
+      profileId: "profile-1",
+      workspaceId: "workspace-1",
+      roleId: "role-1",
+    });
+
+    expect((await post(app, "/write", token)).statusCode).toBe(200);
+    expect((await post(app, "/ingest", token)).statusCode).toBe(200);
+  });
+});
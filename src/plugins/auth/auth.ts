@@ -1,33 +1,126 @@
 import fp from "fastify-plugin";
-import { FastifyPluginAsync } from "fastify";
-import { publicRoutes, isAdminRoute } from "./routes";
-import { JWTPayload } from "./types";
-import { AppError, AuthorizationError } from "../error/plugin";
-import jwt from "jsonwebtoken";
+import { FastifyPluginAsync, FastifyRequest } from "fastify";
+import { DeviceContext, JWTPayload } from "./types";
+import {
+  AppError,
+  AuthenticationError,
+  AuthorizationError,
+} from "../error/plugin";
+import { DEVICE_KEY_PREFIX, hashToken, verifyAccessToken } from "./tokens";
+import { DEVICE_PERMISSIONS, hasPermission } from "./permissions";
 
 declare module "fastify" {
   interface FastifyRequest {
     user?: JWTPayload;
+    // Permissions of the caller's role in the token's workspace
+    permissions?: string[];
+    device?: DeviceContext;
   }
 }
 
+/**
+ * Permissions are granted per workspace, so a route addressing a workspace
+ * by param must target the one the caller is signed in to
+ */
+function assertWorkspaceParam(
+  request: FastifyRequest,
+  workspaceParam: string | undefined,
+  workspaceId: string
+) {
+  if (!workspaceParam) return;
+
+  const params = request.params as Record<string, string | undefined>;
+  if (params[workspaceParam] !== workspaceId) {
+    throw new AuthorizationError(
+      "Switch to this workspace to perform this action"
+    );
+  }
+}
+
+/**
+ * Token of a Bearer header, or a device key sent as either half of Basic
+ * credentials. Clients that can only put credentials in the server URL
+ * (http://smy_...@host) send them that way, e.g. stock ActivityWatch
+ * watchers.
+ */
+function extractToken(authHeader: string): string | undefined {
+  const [scheme, value] = authHeader.split(" ");
+
+  if (scheme?.toLowerCase() !== "basic" || !value) {
+    return value;
+  }
+
+  const credentials = Buffer.from(value, "base64").toString("utf8");
+  return credentials
+    .split(":")
+    .find((part) => part.startsWith(DEVICE_KEY_PREFIX));
+}
+
 const authMiddleware: FastifyPluginAsync = fp(async (fastify) => {
   console.log("Auth middleware initialized");
   fastify.addHook("preHandler", async (request) => {
-    const url = request.raw.url || "";
-    const method = request.raw.method || "GET";
+    const { permission, workspaceParam, allowPendingTwoFactor } =
+      request.routeOptions.config;
 
-    if (publicRoutes.includes(url)) {
+    if (permission === "public") {
       return; // Skip authentication for public routes
     }
 
+    // Routes without a declared policy are denied
+    if (!permission) throw new AuthorizationError();
+
     const authHeader = request.headers.authorization;
     if (!authHeader) throw new AppError("JsonWebTokenError", 401);
 
-    const token = authHeader.split(" ")[1];
+    const token = extractToken(authHeader);
     if (!token) throw new AppError("JsonWebTokenError", 401);
 
-    const decoded = jwt.decode(token) as JWTPayload;
+    // Device API keys are limited to the routes matching their scopes
+    if (token.startsWith(DEVICE_KEY_PREFIX)) {
+      const device = await fastify.prisma.device.findUnique({
+        where: { keyHash: hashToken(token) },
+        include: { profile: { include: { role: true } } },
+      });
+
+      if (!device || device.revokedAt) {
+        throw new AuthenticationError("Invalid API key");
+      }
+
+      // Keys only hold ingestion permissions in both their scopes and
+      // their profile's role, and only reach routes declaring one
+      const granted = device.profile.role.permissions.filter(
+        (candidate) =>
+          device.scopes.includes(candidate) &&
+          (DEVICE_PERMISSIONS as readonly string[]).includes(candidate)
+      );
+      if (
+        permission === "authenticated" ||
+        !hasPermission(granted, permission)
+      ) {
+        throw new AuthorizationError(
+          "API key is not allowed to access this route"
+        );
+      }
+
+      assertWorkspaceParam(request, workspaceParam, device.profile.workspaceId);
+
+      await fastify.prisma.device.update({
+        where: { id: device.id },
+        data: { lastSeenAt: new Date() },
+      });
+
+      request.user = {
+        userId: device.profile.userId,
+        profileId: device.profileId,
+        workspaceId: device.profile.workspaceId,
+        roleId: device.profile.roleId,
+      };
+      request.permissions = granted;
+      request.device = { id: device.id, name: device.name };
+      return;
+    }
+
+    const decoded = verifyAccessToken(token);
 
     if (
       !decoded ||
@@ -38,14 +131,53 @@ const authMiddleware: FastifyPluginAsync = fp(async (fastify) => {
       throw new AppError("JsonWebTokenError", 401);
     }
 
-    // Check admin routes access
-    if (decoded.role != "ADMIN") {
-      if (isAdminRoute(method, url)) {
-        throw new AuthorizationError();
-      }
+    // Token must still match a live profile with the claimed role
+    const profile = await fastify.prisma.profile.findUnique({
+      where: { id: decoded.profileId },
+      select: {
+        userId: true,
+        workspaceId: true,
+        roleId: true,
+        role: { select: { permissions: true } },
+        workspace: { select: { requireAdminTwoFactor: true } },
+      },
+    });
+
+    if (
+      !profile ||
+      profile.userId !== decoded.userId ||
+      profile.workspaceId !== decoded.workspaceId ||
+      profile.roleId !== decoded.roleId
+    ) {
+      throw new AuthenticationError("Token is no longer valid");
+    }
+
+    const { permissions } = profile.role;
+
+    // Admins of workspaces enforcing 2FA may only enroll until they use it
+    if (
+      permissions.includes("workspace:manage") &&
+      profile.workspace.requireAdminTwoFactor &&
+      !decoded.mfa &&
+      !allowPendingTwoFactor
+    ) {
+      throw new AppError(
+        "Two-factor authentication is required for admins of this workspace",
+        403,
+        "TWO_FACTOR_REQUIRED"
+      );
+    }
+
+    if (
+      permission !== "authenticated" &&
+      !hasPermission(permissions, permission)
+    ) {
+      throw new AuthorizationError();
     }
+    assertWorkspaceParam(request, workspaceParam, profile.workspaceId);
 
     request.user = decoded;
+    request.permissions = permissions;
   });
 });
 
@@ -0,0 +1,121 @@
+import { RouteOptions } from "fastify";
+
+export const PERMISSIONS = [
+  "activity:read",
+  "activity:write",
+  // Sending tracked events, the only permission device API keys can hold
+  "activity:ingest",
+  "activity:read:members",
+  "activity:read:project-members",
+  "project:read",
+  "project:write",
+  "report:read",
+  "insight:read",
+  "member:read",
+  "member:manage",
+  "role:manage",
+  "workspace:manage",
+  "audit:read",
+  "device:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Permissions a device API key can be scoped to
+export const DEVICE_PERMISSIONS = [
+  "activity:ingest",
+] as const satisfies readonly Permission[];
+
+/**
+ * Policy declared on a route: a permission (or a list of which any one is
+ * enough) checked against the profile's role in the token's workspace,
+ * "authenticated" for any signed-in user, or "public" to skip
+ * authentication entirely.
+ */
+export type RoutePolicy =
+  Permission | Permission[] | "authenticated" | "public";
+
+declare module "fastify" {
+  interface FastifyContextConfig {
+    permission?: RoutePolicy;
+    // Route param that must match the token's workspace
+    workspaceParam?: string;
+    // Reachable by admins who still have to complete 2FA enrollment
+    allowPendingTwoFactor?: boolean;
+  }
+}
+
+const MEMBER_PERMISSIONS: Permission[] = [
+  "activity:read",
+  "activity:write",
+  "activity:ingest",
+  "project:read",
+  "insight:read",
+  "member:read",
+  "device:manage",
+];
+
+export type BuiltInRoleKey =
+  "ADMIN" | "USER" | "MANAGER" | "BILLING" | "VIEWER";
+
+/**
+ * Roles created with every workspace. Their permissions are stored on the
+ * role rows, so changes here need a migration for existing workspaces.
+ */
+export const BUILT_IN_ROLES: Record<
+  BuiltInRoleKey,
+  { name: string; permissions: Permission[] }
+> = {
+  ADMIN: { name: "Admin", permissions: [...PERMISSIONS] },
+  USER: { name: "Member", permissions: MEMBER_PERMISSIONS },
+  MANAGER: {
+    name: "Manager",
+    permissions: [...MEMBER_PERMISSIONS, "activity:read:project-members"],
+  },
+  BILLING: {
+    name: "Billing",
+    permissions: ["project:read", "report:read", "member:read"],
+  },
+  VIEWER: {
+    name: "Viewer",
+    permissions: [
+      "activity:read",
+      "project:read",
+      "insight:read",
+      "member:read",
+    ],
+  },
+};
+
+// Routes registered by plugins we don't own (swagger-ui)
+const PUBLIC_ROUTE_PREFIXES = ["/docs"];
+
+/**
+ * Check whether a set of granted permissions satisfies a route policy
+ */
+export function hasPermission(
+  permissions: string[],
+  required: Permission | Permission[]
+): boolean {
+  const anyOf = Array.isArray(required) ? required : [required];
+  return anyOf.some((permission) => permissions.includes(permission));
+}
+
+/**
+ * onRoute hook failing startup when a route declares no policy
+ */
+export function enforceRoutePolicy(routeOptions: RouteOptions): void {
+  const config = routeOptions.config || {};
+  if (config.permission) return;
+
+  if (
+    PUBLIC_ROUTE_PREFIXES.some((prefix) => routeOptions.url.startsWith(prefix))
+  ) {
+    routeOptions.config = { ...config, permission: "public" };
+    return;
+  }
+
+  throw new Error(
+    `Route ${routeOptions.method} ${routeOptions.url} has no permission declared`
+  );
+}
@@ -0,0 +1,79 @@
+import jwt from "jsonwebtoken";
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { JWTPayload, TwoFactorChallengePayload } from "./types";
+
+if (process.env.NODE_ENV === "production" && !process.env.JWT_SECRET) {
+  throw new Error("JWT_SECRET must be set in production");
+}
+
+export const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+export const JWT_ISSUER = process.env.JWT_ISSUER || "samay-be";
+export const JWT_AUDIENCE = process.env.JWT_AUDIENCE || "samay-app";
+const JWT_EXPIRES_IN = "15m";
+// Challenge tokens use their own audience so they never pass as access tokens
+const CHALLENGE_AUDIENCE = `${JWT_AUDIENCE}:2fa-challenge`;
+const CHALLENGE_EXPIRES_IN = "5m";
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+export const DEVICE_KEY_PREFIX = "smy_";
+
+/**
+ * Sign an access token for a profile
+ */
+export function signAccessToken(payload: JWTPayload): string {
+  return jwt.sign({ ...payload, jti: randomUUID() }, JWT_SECRET, {
+    algorithm: "HS256",
+    expiresIn: JWT_EXPIRES_IN,
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE,
+  });
+}
+
+/**
+ * Verify signature, expiry, issuer and audience of an access token.
+ * Throws JsonWebTokenError / TokenExpiredError which the error plugin maps to 401.
+ */
+export function verifyAccessToken(token: string): JWTPayload {
+  return jwt.verify(token, JWT_SECRET, {
+    algorithms: ["HS256"],
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE,
+  }) as JWTPayload;
+}
+
+/**
+ * Sign a short-lived token proving the password step of a 2FA login
+ */
+export function signChallengeToken(payload: TwoFactorChallengePayload): string {
+  return jwt.sign(payload, JWT_SECRET, {
+    algorithm: "HS256",
+    expiresIn: CHALLENGE_EXPIRES_IN,
+    issuer: JWT_ISSUER,
+    audience: CHALLENGE_AUDIENCE,
+  });
+}
+
+/**
+ * Verify a 2FA challenge token
+ */
+export function verifyChallengeToken(token: string): TwoFactorChallengePayload {
+  return jwt.verify(token, JWT_SECRET, {
+    algorithms: ["HS256"],
+    issuer: JWT_ISSUER,
+    audience: CHALLENGE_AUDIENCE,
+  }) as TwoFactorChallengePayload;
+}
+
+/**
+ * Generate an opaque random token. Only the hash is stored server-side.
+ */
+export function generateOpaqueToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(48).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+}
+
+/**
+ * Hash an opaque token for storage / lookup
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
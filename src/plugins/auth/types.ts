@@ -2,5 +2,16 @@ export interface JWTPayload {
   userId: string;
   profileId: string;
   workspaceId: string;
-  role: string;
+  roleId: string;
+  // Set when the session was established with a second factor
+  mfa?: boolean;
+}
+
+export interface DeviceContext {
+  id: string;
+  name: string;
+}
+
+export interface TwoFactorChallengePayload {
+  userId: string;
 }
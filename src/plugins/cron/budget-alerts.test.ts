@@ -0,0 +1,69 @@
+import { describe, expect, it, vi } from "vitest";
+import { FastifyInstance } from "fastify";
+import { executeBudgetAlertsTask } from "./budget-alerts";
+
+vi.mock("../../modules/budgets/service", () => ({
+  getBudgetsWithProjects: vi
+    .fn()
+    .mockResolvedValue([
+      { id: "budget-1", projectId: 1, project: { workspaceId: "workspace-1" } },
+    ]),
+  computeBudgetStatus: vi.fn().mockResolvedValue({
+    budget: { type: "HOURS", amount: 100, currency: null },
+    periodStart: "2026-10-01",
+    burned: 85,
+    percent: 85,
+  }),
+}));
+
+function createFastify(send: ReturnType<typeof vi.fn>) {
+  return {
+    prisma: {
+      budgetAlert: {
+        findMany: vi.fn().mockResolvedValue([]),
+        createMany: vi.fn(),
+      },
+      project: {
+        findUniqueOrThrow: vi.fn().mockResolvedValue({ name: "Website" }),
+      },
+      profile: {
+        findMany: vi
+          .fn()
+          .mockResolvedValue([{ user: { email: "jane@acme.com" } }]),
+      },
+    },
+    mailer: { send },
+  };
+}
+
+describe("executeBudgetAlertsTask", () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  it("records the crossed thresholds once the mail is sent", async () => {
+    const fastify = createFastify(vi.fn());
+
+    await executeBudgetAlertsTask(fastify as unknown as FastifyInstance);
+
+    expect(fastify.mailer.send).toHaveBeenCalledOnce();
+    expect(fastify.prisma.budgetAlert.createMany).toHaveBeenCalledWith({
+      data: [50, 80].map((threshold) => ({
+        budgetId: "budget-1",
+        periodStart: new Date("2026-10-01T00:00:00.000Z"),
+        threshold,
+      })),
+      skipDuplicates: true,
+    });
+  });
+
+  it("leaves the thresholds unrecorded when the mail fails", async () => {
+    const fastify = createFastify(
+      vi.fn().mockRejectedValue(new Error("SMTP down"))
+    );
+
+    await executeBudgetAlertsTask(fastify as unknown as FastifyInstance);
+
+    expect(fastify.mailer.send).toHaveBeenCalledOnce();
+    expect(fastify.prisma.budgetAlert.createMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,103 @@
+import { CronJob, AsyncTask } from "toad-scheduler";
+import { FastifyInstance } from "fastify";
+import {
+  computeBudgetStatus,
+  getBudgetsWithProjects,
+} from "../../modules/budgets/service";
+import { budgetAlertMail } from "../mail/templates";
+
+const CRON_EXPRESSION = "0 * * * *";
+const THRESHOLDS = [50, 80, 100];
+
+/**
+ * Mail the project's managers when a budget crosses a threshold. Sent
+ * thresholds are recorded per period, so each is only mailed once. If a
+ * mail fails, the threshold stays unrecorded and the managers are mailed
+ * again on the next run.
+ */
+export async function executeBudgetAlertsTask(
+  fastify: FastifyInstance
+): Promise<void> {
+  console.log("Starting budget alerts task");
+
+  const now = new Date();
+  const budgets = await getBudgetsWithProjects(fastify.prisma);
+
+  for (const budget of budgets) {
+    try {
+      const status = await computeBudgetStatus(fastify.prisma, budget, now);
+      const crossed = THRESHOLDS.filter((t) => status.percent >= t);
+      if (!crossed.length) continue;
+
+      const periodStart = new Date(`${status.periodStart}T00:00:00.000Z`);
+      const sent = await fastify.prisma.budgetAlert.findMany({
+        where: { budgetId: budget.id, periodStart },
+        select: { threshold: true },
+      });
+      const fresh = crossed.filter(
+        (t) => !sent.some((alert) => alert.threshold === t)
+      );
+      if (!fresh.length) continue;
+
+      const [project, managers] = await Promise.all([
+        fastify.prisma.project.findUniqueOrThrow({
+          where: { id: budget.projectId },
+          select: { name: true },
+        }),
+        fastify.prisma.profile.findMany({
+          where: {
+            workspaceId: budget.project.workspaceId,
+            role: { permissions: { has: "project:write" } },
+          },
+          select: { user: { select: { email: true } } },
+        }),
+      ]);
+
+      // One mail for the highest threshold crossed since the last run
+      const usage =
+        status.budget.type === "HOURS"
+          ? `${status.burned} of ${status.budget.amount} hours`
+          : `${status.burned} of ${status.budget.amount} ${status.budget.currency}`;
+      for (const manager of managers) {
+        await fastify.mailer.send(
+          budgetAlertMail(
+            manager.user.email,
+            project.name,
+            fresh[fresh.length - 1],
+            `${status.percent}% (${usage})`
+          )
+        );
+      }
+
+      // Recorded only once the mails went out, a failed send is retried on
+      // the next run
+      await fastify.prisma.budgetAlert.createMany({
+        data: fresh.map((threshold) => ({
+          budgetId: budget.id,
+          periodStart,
+          threshold,
+        })),
+        skipDuplicates: true,
+      });
+    } catch (err) {
+      console.error(`Error checking budget ${budget.id}:`, err);
+      // Continue with next budget
+    }
+  }
+
+  console.log("Budget alerts task completed");
+}
+
+export const createBudgetAlertsJob = (fastify: FastifyInstance) => {
+  const taskFunction = () => executeBudgetAlertsTask(fastify);
+
+  const task = new AsyncTask(
+    "budget alerts task",
+    taskFunction,
+    (err: Error) => {
+      console.error("Budget alerts task error:", err);
+    }
+  );
+
+  return new CronJob({ cronExpression: CRON_EXPRESSION }, task);
+};
@@ -4,9 +4,18 @@ import { PrismaClient } from "@prisma/client";
 import OpenAI from "openai";
 import { z } from "zod/v3";
 import { zodResponseFormat } from "openai/helpers/zod";
-
-// Run every day at 00:01
-const CRON_EXPRESSION = "1 0 * * *";
+import {
+  addDays,
+  formatLocalTime,
+  getLocalDate,
+  getLocalHour,
+  getZonedDayRange,
+  resolveTimeZone,
+} from "../time/timezone";
+
+// Run every hour at minute 1, profiles are processed once it is past
+// midnight in their timezone
+const CRON_EXPRESSION = "1 * * * *";
 const EXCLUDED_APPS = ["loginwindow", "dock"];
 
 const OPENAI_ACTIVITY_MODEL =
@@ -61,24 +70,14 @@ interface TopActivityResponse {
   title: string;
   duration: number;
   tag: string;
-  mergedTimestamp?: string;
-}
-
-function convertToIST(utcDateString: string): string {
-  try {
-    const date = new Date(utcDateString);
-    return date.toLocaleTimeString("en-IN", {
-      timeZone: "Asia/Kolkata",
-      hour: "2-digit",
-      minute: "2-digit",
-      hour12: true,
-    });
-  } catch {
-    return utcDateString;
-  }
+  manual: boolean;
+  segments: Array<{ start: Date; duration: number }>;
 }
 
-function formatActivitiesForPrompt(activities: TopActivityResponse[]): string {
+function formatActivitiesForPrompt(
+  activities: TopActivityResponse[],
+  timeZone: string
+): string {
   const totalDuration = activities.reduce(
     (sum, activity) => sum + (activity.duration || 0),
     0
@@ -92,25 +91,24 @@ function formatActivitiesForPrompt(activities: TopActivityResponse[]): string {
       const percentage = Math.round(
         ((activity.duration || 0) / totalDuration) * 100
       );
-      const tag = activity.tag ? `[${activity.tag}]` : "[Untagged]";
+      const tag = activity.manual
+        ? "[Logged manually]"
+        : activity.tag
+          ? `[${activity.tag}]`
+          : "[Untagged]";
 
       let timestamps = "";
-      if (activity.mergedTimestamp) {
-        const parts = activity.mergedTimestamp
-          .split(",")
-          .filter((p) => p.trim().length > 0);
+      if (activity.segments.length) {
         // Limit to first 20 timestamps to avoid token limit issues if there are too many
-        const limitedParts = parts.slice(0, 20);
-        const formattedParts = limitedParts
-          .map((part) => {
-            const [ts, dur] = part.split("|");
-            if (!ts) return "";
-            return `${convertToIST(ts)} (${dur}s)`;
-          })
-          .filter(Boolean);
-
-        timestamps = `\n   Timestamps (IST): ${formattedParts.join(", ")}${
-          parts.length > 20 ? "..." : ""
+        const formattedParts = activity.segments
+          .slice(0, 20)
+          .map(
+            ({ start, duration }) =>
+              `${formatLocalTime(start, timeZone)} (${duration}s)`
+          );
+
+        timestamps = `\n   Timestamps (${timeZone}): ${formattedParts.join(", ")}${
+          activity.segments.length > 20 ? "..." : ""
         }`;
       }
 
@@ -120,38 +118,66 @@ function formatActivitiesForPrompt(activities: TopActivityResponse[]): string {
     .join("\n\n");
 }
 
+/**
+ * Top activities by app and title in [start, end), with the start and
+ * duration of every event they were built from
+ */
 async function getTopActivities(
   profileId: string,
-  query: {
-    startDate?: string;
-    endDate?: string;
-  },
+  range: { start: Date; end: Date },
   prisma: PrismaClient
 ): Promise<TopActivityResponse[]> {
-  const { startDate, endDate } = query;
-
-  const topActivities = await prisma.activity.groupBy({
-    by: ["app", "title", "autoTags", "mergedTimestamp"],
+  const activities = await prisma.activity.findMany({
     where: {
       profileId,
-      timestamp: {
-        gte: startDate,
-        lte: endDate,
-      },
+      timestamp: { gte: range.start, lt: range.end },
       app: { notIn: EXCLUDED_APPS },
     },
-    _sum: { duration: true },
-    orderBy: { _sum: { duration: "desc" } },
-    take: 100, // Increased to get more context
+    select: {
+      app: true,
+      title: true,
+      autoTags: true,
+      timestamp: true,
+      duration: true,
+      merged: true,
+      source: true,
+      segments: {
+        select: { start: true, duration: true },
+        orderBy: { start: "asc" },
+      },
+    },
   });
 
-  return topActivities.map((item) => ({
-    app: item.app,
-    title: item.title,
-    duration: item._sum?.duration || 0,
-    tag: item.autoTags || "",
-    mergedTimestamp: item.mergedTimestamp || undefined,
-  }));
+  const grouped = new Map<string, TopActivityResponse>();
+  for (const activity of activities) {
+    const key = `${activity.app}|${activity.title}|${activity.autoTags}|${activity.source}`;
+    const entry = grouped.get(key) || {
+      app: activity.app,
+      title: activity.title,
+      duration: 0,
+      tag: activity.autoTags || "",
+      manual: activity.source === "MANUAL",
+      segments: [],
+    };
+    entry.duration += activity.duration || 0;
+    // Events not merged yet are their own segment
+    entry.segments.push(
+      ...(activity.merged
+        ? activity.segments
+        : [{ start: activity.timestamp, duration: activity.duration || 0 }])
+    );
+    grouped.set(key, entry);
+  }
+
+  return [...grouped.values()]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, 100) // Increased to get more context
+    .map((entry) => ({
+      ...entry,
+      segments: entry.segments.sort(
+        (a, b) => a.start.getTime() - b.start.getTime()
+      ),
+    }));
 }
 
 /**
@@ -159,18 +185,12 @@ async function getTopActivities(
  */
 async function generateUserInsights(
   profileId: string,
-  startDate: string,
-  endDate: string,
+  start: Date,
+  end: Date,
+  timeZone: string,
   prisma: PrismaClient
 ) {
-  const activities = await getTopActivities(
-    profileId,
-    {
-      startDate,
-      endDate,
-    },
-    prisma
-  );
+  const activities = await getTopActivities(profileId, { start, end }, prisma);
 
   if (!activities || activities.length === 0) {
     return {
@@ -191,15 +211,15 @@ async function generateUserInsights(
   );
 
   const userPrompt = `ACTIVITY ANALYSIS DATA:
-Date range: ${startDate} -> ${endDate}
+Date range: ${start.toISOString()} -> ${end.toISOString()}
 Total duration tracked: ${Math.round(totalDuration / 60)} minutes
 
 TOP ACTIVITIES (by duration):
-${formatActivitiesForPrompt(activities)}
+${formatActivitiesForPrompt(activities, timeZone)}
 
 ANALYSIS REQUIREMENTS:
 Based on the activities above, generate the requested insights and improvement plan.
-REMINDER: The provided timestamps are in IST. Use them as is.`;
+REMINDER: The provided timestamps are local times in ${timeZone}. Use them as is.`;
 
   try {
     const completion = await openaiClient.chat.completions.parse({
@@ -241,34 +261,31 @@ export async function executeDailyInsightsTask(
   console.log("Starting daily insights task");
 
   try {
-    // Get all profiles
-    const profiles = await fastify.prisma.profile.findMany();
-    console.log(`Found ${profiles.length} profiles to process`);
-
-    // Calculate yesterday's date range
+    const profiles = await fastify.prisma.profile.findMany({
+      include: { workspace: { select: { timezone: true } } },
+    });
     const now = new Date();
-    const yesterday = new Date(now);
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    // Set to start of day (00:00:00)
-    yesterday.setHours(0, 0, 0, 0);
-    const startDate = yesterday.toISOString();
 
-    // Set to end of day (23:59:59.999)
-    const endOfYesterday = new Date(yesterday);
-    endOfYesterday.setHours(23, 59, 59, 999);
-    const endDate = endOfYesterday.toISOString();
+    for (const profile of profiles) {
+      const timeZone = resolveTimeZone(
+        profile.timezone,
+        profile.workspace.timezone
+      );
 
-    console.log(`Generating insights for period: ${startDate} to ${endDate}`);
+      // Yesterday is complete once the first hour of today has started
+      if (getLocalHour(now, timeZone) !== 0) continue;
 
-    for (const profile of profiles) {
       try {
         console.log(`Processing profile ${profile.id}`);
 
+        const yesterday = addDays(getLocalDate(now, timeZone), -1);
+        const { start, end } = getZonedDayRange(yesterday, timeZone);
+
         const summary = await generateUserInsights(
           profile.id,
-          startDate,
-          endDate,
+          start,
+          end,
+          timeZone,
           fastify.prisma
         );
 
@@ -280,46 +297,22 @@ export async function executeDailyInsightsTask(
           ) &&
           !summary.dailyInsights.includes("Error generating insights.")
         ) {
-          // Normalize the date to remove time component for unique constraint matching
-          const normalizedDate = new Date(startDate);
-          normalizedDate.setHours(0, 0, 0, 0);
-
-          // Set end of day for date range query
-          const endOfNormalizedDate = new Date(normalizedDate);
-          endOfNormalizedDate.setHours(23, 59, 59, 999);
-
-          // Check if insight already exists for this date
-          const existingInsight = await fastify.prisma.dailyInsight.findFirst({
-            where: {
+          // Insights are keyed by the calendar day at UTC midnight
+          const date = new Date(yesterday);
+
+          await fastify.prisma.dailyInsight.upsert({
+            where: { profileId_date: { profileId: profile.id, date } },
+            update: {
+              dailyInsights: summary.dailyInsights,
+              improvementPlan: summary.improvementPlan,
+            },
+            create: {
               profileId: profile.id,
-              date: {
-                gte: normalizedDate,
-                lte: endOfNormalizedDate,
-              },
+              dailyInsights: summary.dailyInsights,
+              improvementPlan: summary.improvementPlan,
+              date,
             },
           });
-
-          // Update or create the insight
-          if (existingInsight) {
-            await fastify.prisma.dailyInsight.update({
-              where: {
-                id: existingInsight.id,
-              },
-              data: {
-                dailyInsights: summary.dailyInsights,
-                improvementPlan: summary.improvementPlan,
-              },
-            });
-          } else {
-            await fastify.prisma.dailyInsight.create({
-              data: {
-                profileId: profile.id,
-                dailyInsights: summary.dailyInsights,
-                improvementPlan: summary.improvementPlan,
-                date: normalizedDate,
-              },
-            });
-          }
         }
       } catch (err) {
         console.error(`Error processing profile ${profile.id}:`, err);
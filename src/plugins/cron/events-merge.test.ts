@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { Activity } from "@prisma/client";
+import { mergeActivities } from "./events-merge";
+
+let nextId = 0;
+
+function event(overrides: Partial<Activity> = {}): Partial<Activity> {
+  nextId++;
+  return {
+    id: `activity-${nextId}`,
+    profileId: "profile-1",
+    app: "Code",
+    title: "service.ts",
+    selected: true,
+    timestamp: new Date("2026-10-01T09:00:00Z"),
+    duration: 60,
+    rawDuration: 60,
+    url: "",
+    projectId: null,
+    projectRuleId: null,
+    taskId: null,
+    billable: null,
+    description: null,
+    deviceId: null,
+    ...overrides,
+  };
+}
+
+const timeZones = new Map([["profile-1", "Europe/Berlin"]]);
+
+describe("mergeActivities", () => {
+  it("merges events of the same app and title on a local day", () => {
+    const { activities, allIds } = mergeActivities(
+      [
+        event({ timestamp: new Date("2026-10-01T10:00:00Z"), url: "b" }),
+        event({ timestamp: new Date("2026-10-01T09:00:00Z"), url: "a" }),
+      ],
+      timeZones
+    );
+
+    expect(allIds).toHaveLength(2);
+    expect(activities).toHaveLength(1);
+    expect(activities[0]).toMatchObject({
+      duration: 120,
+      rawDuration: 120,
+      timestamp: new Date("2026-10-01T09:00:00Z"),
+      url: "a",
+      merged: true,
+    });
+    expect(activities[0].segments).toHaveLength(2);
+  });
+
+  it("keeps days apart in the profile's timezone", () => {
+    const { activities } = mergeActivities(
+      [
+        // 23:30 and 00:30 in Berlin
+        event({ timestamp: new Date("2026-10-01T21:30:00Z") }),
+        event({ timestamp: new Date("2026-10-01T22:30:00Z") }),
+      ],
+      timeZones
+    );
+
+    expect(activities).toHaveLength(2);
+  });
+
+  it.each([
+    ["billable override", { billable: false }],
+    ["project", { projectId: 3 }],
+    ["task", { projectId: null, taskId: 4 }],
+    ["description", { description: "Call with Acme" }],
+  ])("doesn't merge events with a different %s", (_, overrides) => {
+    const { activities } = mergeActivities(
+      [event(), event(overrides)],
+      timeZones
+    );
+
+    expect(activities).toHaveLength(2);
+  });
+
+  it("carries what the user set over to the merged activity", () => {
+    const fields = {
+      projectId: 3,
+      projectRuleId: 5,
+      taskId: 4,
+      billable: false,
+      description: "Call with Acme",
+    };
+
+    const { activities } = mergeActivities(
+      [event(fields), event(fields)],
+      timeZones
+    );
+
+    expect(activities).toHaveLength(1);
+    expect(activities[0]).toMatchObject(fields);
+  });
+
+  it("doesn't confuse titles containing the old key separator", () => {
+    const { activities } = mergeActivities(
+      [event({ app: "a|b", title: "c" }), event({ app: "a", title: "b|c" })],
+      timeZones
+    );
+
+    expect(activities).toHaveLength(2);
+  });
+});
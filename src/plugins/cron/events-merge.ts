@@ -1,6 +1,11 @@
 import { CronJob, AsyncTask } from "toad-scheduler";
 import { FastifyInstance } from "fastify";
 import { Activity } from "@prisma/client";
+import {
+  DEFAULT_TIMEZONE,
+  getLocalDate,
+  resolveTimeZone,
+} from "../time/timezone";
 
 // Interface for the aggregated result
 interface AggregatedActivity {
@@ -9,37 +14,35 @@ interface AggregatedActivity {
   title: string;
   selected: boolean;
   duration: number;
-  timestamp: string;
+  rawDuration: number;
+  timestamp: Date;
   url: string;
   merged: boolean;
   projectId: number | null;
-  mergedTimestamp: string;
+  projectRuleId: number | null;
+  taskId: number | null;
+  billable: boolean | null;
+  description: string | null;
+  deviceId: string | null;
+  segments: Array<{
+    start: Date;
+    duration: number;
+    rawDuration: number;
+    url: string;
+    eventId: string | null;
+  }>;
   autoTags: string;
   isAutoTagged: boolean;
 }
 
-// Helper function to convert timestamp to IST date string (YYYY-MM-DD)
-const getISTDate = (timestamp: string): string => {
-  if (!timestamp) return "";
-  try {
-    const date = new Date(timestamp);
-    // Convert to IST (Asia/Kolkata timezone)
-    const istDateString = date.toLocaleString("en-US", {
-      timeZone: "Asia/Kolkata",
-      year: "numeric",
-      month: "2-digit",
-      day: "2-digit",
-    });
-    // Format: MM/DD/YYYY -> YYYY-MM-DD
-    const [month, day, year] = istDateString.split("/");
-    return `${year}-${month}-${day}`;
-  } catch {
-    return "";
-  }
-};
-
-const mergeActivities = (
-  activities: Partial<Activity>[]
+/**
+ * Merge a profile's events of the same app and title on the same local day.
+ * Events only merge when everything a user can set on them matches, so
+ * their project, task, billable override and description carry over.
+ */
+export const mergeActivities = (
+  activities: Partial<Activity>[],
+  timeZones: Map<string, string>
 ): { activities: AggregatedActivity[]; allIds: string[] } => {
   // Group by userId, app, title, selected and aggregate duration
   const groupedData: Record<string, AggregatedActivity> = {};
@@ -51,32 +54,63 @@ const mergeActivities = (
       title = "",
       selected = false,
       duration = 0,
+      rawDuration = null,
+      eventId = null,
       id = "",
-      timestamp = "",
+      timestamp,
       url = "",
       projectId = null,
+      projectRuleId = null,
+      taskId = null,
+      billable = null,
+      description = null,
+      deviceId = null,
       autoTags = "",
       isAutoTagged = false,
     } = activity;
 
-    if (!profileId || !app || !title) {
+    if (!profileId || !app || !title || !timestamp) {
       return { activities: [], allIds: [] };
     }
 
-    const istDate = getISTDate(timestamp);
-    const key = `${profileId}|${app}|${title}|${selected}|${istDate}`;
+    // Only merge events from the same day in the profile's timezone
+    const localDate = getLocalDate(
+      timestamp,
+      timeZones.get(profileId) || DEFAULT_TIMEZONE
+    );
+    // JSON keeps titles and descriptions containing the separator apart
+    const key = JSON.stringify([
+      profileId,
+      app,
+      title,
+      selected,
+      localDate,
+      deviceId,
+      projectId,
+      taskId,
+      billable,
+      description,
+    ]);
     allIds.push(id);
 
-    const mergedTimestamp =
-      timestamp && duration ? `${timestamp}|${duration}` : "";
+    const segment = {
+      start: timestamp,
+      duration: duration || 0,
+      rawDuration: rawDuration ?? duration ?? 0,
+      url,
+      eventId,
+    };
 
     if (groupedData[key]) {
       // Add duration to existing group
-      groupedData[key].duration += duration || 0;
-      groupedData[key].url += url ? `,${url}` : "";
-      groupedData[key].mergedTimestamp += mergedTimestamp
-        ? `,${mergedTimestamp}`
-        : "";
+      groupedData[key].duration += segment.duration;
+      groupedData[key].rawDuration += segment.rawDuration;
+      groupedData[key].segments.push(segment);
+      // The merged activity starts with its earliest event
+      if (timestamp < groupedData[key].timestamp) {
+        groupedData[key].timestamp = timestamp;
+        groupedData[key].url = url;
+      }
       groupedData[key].autoTags = groupedData[key].autoTags || autoTags || "";
       groupedData[key].isAutoTagged =
         groupedData[key].isAutoTagged || isAutoTagged || false;
@@ -87,12 +121,18 @@ const mergeActivities = (
         app,
         title,
         selected,
-        duration: duration || 0,
+        duration: segment.duration,
+        rawDuration: segment.rawDuration,
         timestamp,
-        url: url ? `${url}` : "",
+        url,
         merged: true,
         projectId,
-        mergedTimestamp: mergedTimestamp || "",
+        projectRuleId,
+        taskId,
+        billable,
+        description,
+        deviceId,
+        segments: [segment],
         autoTags: autoTags || "",
         isAutoTagged,
       };
@@ -109,8 +149,10 @@ export const createEventsMergeJob = (fastify: FastifyInstance) => {
 
     try {
       const activities = await fastify.prisma.activity.findMany({
+        // Manual entries stay as they were logged
         where: {
           merged: false,
+          source: "TRACKER",
         },
         select: {
           id: true,
@@ -120,14 +162,39 @@ export const createEventsMergeJob = (fastify: FastifyInstance) => {
           selected: true,
           timestamp: true,
           duration: true,
+          rawDuration: true,
+          eventId: true,
           projectId: true,
+          projectRuleId: true,
+          taskId: true,
+          billable: true,
+          description: true,
+          deviceId: true,
           autoTags: true,
           isAutoTagged: true,
           url: true,
         },
       });
 
-      const { activities: result, allIds } = mergeActivities(activities);
+      const profiles = await fastify.prisma.profile.findMany({
+        where: { id: { in: [...new Set(activities.map((a) => a.profileId))] } },
+        select: {
+          id: true,
+          timezone: true,
+          workspace: { select: { timezone: true } },
+        },
+      });
+      const timeZones = new Map(
+        profiles.map((profile) => [
+          profile.id,
+          resolveTimeZone(profile.timezone, profile.workspace.timezone),
+        ])
+      );
+
+      const { activities: result, allIds } = mergeActivities(
+        activities,
+        timeZones
+      );
       // create result activities in db with merged true and remove allids from db do these in transaction
       // Process in batches to avoid issues with large datasets
       const BATCH_SIZE = 500; // Smaller batch size to avoid transaction timeouts
@@ -135,11 +202,13 @@ export const createEventsMergeJob = (fastify: FastifyInstance) => {
       // Use interactive transaction with extended timeout for large operations
       await fastify.prisma.$transaction(
         async (tx) => {
-          // Create activities in batches
-          for (let i = 0; i < result.length; i += BATCH_SIZE) {
-            const batch = result.slice(i, i + BATCH_SIZE);
-            await tx.activity.createMany({
-              data: batch,
+          // Create merged activities with the events they were built from
+          for (const { segments, ...activity } of result) {
+            await tx.activity.create({
+              data: {
+                ...activity,
+                segments: { createMany: { data: segments } },
+              },
             });
           }
 
@@ -0,0 +1,36 @@
+import { CronJob, AsyncTask } from "toad-scheduler";
+import { FastifyInstance } from "fastify";
+import { getRetentionCutoff } from "../../modules/projects/service";
+
+const CRON_EXPRESSION = "30 3 * * *";
+
+/**
+ * Permanently remove projects deleted longer ago than the retention window.
+ * Their activities and timers are kept without a project, their members,
+ * rules, rates and budget go with them.
+ */
+async function executeProjectPurgeTask(
+  fastify: FastifyInstance
+): Promise<void> {
+  console.log("Starting project purge task");
+
+  const { count } = await fastify.prisma.project.deleteMany({
+    where: { deletedAt: { lt: getRetentionCutoff(new Date()) } },
+  });
+
+  console.log(`Purged ${count} deleted projects`);
+}
+
+export const createProjectPurgeJob = (fastify: FastifyInstance) => {
+  const taskFunction = () => executeProjectPurgeTask(fastify);
+
+  const task = new AsyncTask(
+    "project purge task",
+    taskFunction,
+    (err: Error) => {
+      console.error("Project purge task error:", err);
+    }
+  );
+
+  return new CronJob({ cronExpression: CRON_EXPRESSION }, task);
+};
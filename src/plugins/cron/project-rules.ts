@@ -0,0 +1,111 @@
+import { CronJob, AsyncTask } from "toad-scheduler";
+import { FastifyInstance } from "fastify";
+import { PrismaClient } from "@prisma/client";
+import { getApplicableRules, matchProjectRule } from "../project-rules/matcher";
+
+const CRON_EXPRESSION = "*/15 * * * *";
+const BATCH_SIZE = 1000;
+// Unassigned activities this old are left alone
+const BACKFILL_DAYS = 30;
+
+/**
+ * Assign projects by rule to a profile's activities that have none, e.g.
+ * ones from before a rule was added or tagged after they arrived.
+ * Returns the number of activities assigned.
+ */
+async function backfillProfile(
+  prisma: PrismaClient,
+  profileId: string,
+  since: Date
+): Promise<number> {
+  const rules = await getApplicableRules(prisma, profileId);
+  if (!rules.length) return 0;
+
+  let assigned = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const activities = await prisma.activity.findMany({
+      // Assigned rows drop out of the filter, so page by ID rather than
+      // with a Prisma cursor
+      where: {
+        profileId,
+        projectId: null,
+        timestamp: { gte: since },
+        id: cursor ? { gt: cursor } : undefined,
+      },
+      select: {
+        id: true,
+        profileId: true,
+        app: true,
+        title: true,
+        url: true,
+        autoTags: true,
+      },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+
+    const matches = new Map<number, { projectId: number; ids: string[] }>();
+    for (const activity of activities) {
+      const rule = matchProjectRule(rules, activity);
+      if (!rule) continue;
+
+      const match = matches.get(rule.id) || {
+        projectId: rule.projectId,
+        ids: [],
+      };
+      match.ids.push(activity.id);
+      matches.set(rule.id, match);
+    }
+
+    for (const [projectRuleId, { projectId, ids }] of matches) {
+      // Activities assigned by hand in the meantime are kept
+      const { count } = await prisma.activity.updateMany({
+        where: { id: { in: ids }, projectId: null },
+        data: { projectId, projectRuleId },
+      });
+      assigned += count;
+    }
+
+    if (activities.length < BATCH_SIZE) return assigned;
+    cursor = activities[activities.length - 1].id;
+  }
+}
+
+async function executeProjectRulesTask(
+  fastify: FastifyInstance
+): Promise<void> {
+  console.log("Starting project rules backfill task");
+
+  const since = new Date(Date.now() - BACKFILL_DAYS * 24 * 60 * 60 * 1000);
+  const profiles = await fastify.prisma.profile.findMany({
+    where: {
+      projectUsers: {
+        some: { active: true, project: { rules: { some: {} } } },
+      },
+    },
+    select: { id: true },
+  });
+
+  let assigned = 0;
+  for (const profile of profiles) {
+    assigned += await backfillProfile(fastify.prisma, profile.id, since);
+  }
+
+  console.log(`Assigned ${assigned} activities to projects by rule`);
+}
+
+export const createProjectRulesJob = (fastify: FastifyInstance) => {
+  const taskFunction = () => executeProjectRulesTask(fastify);
+
+  const task = new AsyncTask(
+    "project rules task",
+    taskFunction,
+    (err: Error) => {
+      console.error("Project rules task error:", err);
+    }
+  );
+
+  return new CronJob({ cronExpression: CRON_EXPRESSION }, task);
+};
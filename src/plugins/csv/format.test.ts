@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { toCsvField } from "./format";
+
+describe("toCsvField", () => {
+  it("prefixes values a spreadsheet would read as a formula", () => {
+    expect(toCsvField("=1+1")).toBe("'=1+1");
+    expect(toCsvField("@SUM(A1)")).toBe("'@SUM(A1)");
+    expect(toCsvField("\t=1+1")).toBe("'\t=1+1");
+    expect(toCsvField("\r=1+1")).toBe(`"'\r=1+1"`);
+  });
+
+  it("leaves other values alone", () => {
+    expect(toCsvField("Code")).toBe("Code");
+    expect(toCsvField(42)).toBe("42");
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Format a CSV field, quoting it when needed
+ */
+export function toCsvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+
+  // Keep spreadsheet apps from evaluating cells as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Format a CSV row including its line break
+ */
+export function toCsvRow(
+  values: Array<string | number | null | undefined>
+): string {
+  return values.map(toCsvField).join(",") + "\n";
+}
@@ -48,6 +48,15 @@ export class ConflictError extends AppError {
   }
 }
 
+export class TooManyRequestsError extends AppError {
+  public readonly retryAfter?: number;
+
+  constructor(message: string = "Too many requests", retryAfter?: number) {
+    super(message, 429, "RATE_LIMITED");
+    this.retryAfter = retryAfter;
+  }
+}
+
 // Error response interface
 interface ErrorResponse {
   message: string;
@@ -303,6 +312,11 @@ const errorHandlerPlugin: FastifyPluginAsync = async (fastify) => {
     // Log the error
     logError(error, request, formattedError);
     const { statusCode, message, code } = formattedError;
+
+    if (error instanceof TooManyRequestsError && error.retryAfter) {
+      reply.header("Retry-After", error.retryAfter);
+    }
+
     // Send the formatted error response
     await reply.status(statusCode).send({ message, statusCode, code });
   });
@@ -327,6 +341,7 @@ const errorHandlerPlugin: FastifyPluginAsync = async (fastify) => {
   fastify.decorate("AuthorizationError", AuthorizationError);
   fastify.decorate("NotFoundError", NotFoundError);
   fastify.decorate("ConflictError", ConflictError);
+  fastify.decorate("TooManyRequestsError", TooManyRequestsError);
 };
 
 // Extend FastifyInstance type to include error classes
@@ -338,6 +353,7 @@ declare module "fastify" {
     AuthorizationError: typeof AuthorizationError;
     NotFoundError: typeof NotFoundError;
     ConflictError: typeof ConflictError;
+    TooManyRequestsError: typeof TooManyRequestsError;
   }
 }
 
@@ -0,0 +1,59 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { createHash } from "crypto";
+import { AppError } from "../error/plugin";
+
+const KEY_TTL_HOURS = 24;
+
+export const IDEMPOTENCY_KEY_HEADER = "idempotency-key";
+
+/**
+ * Run a request once per Idempotency-Key. Retries with the same key and
+ * body get the stored response back instead of running it again. Two
+ * retries racing each other both run, so `run` must be safe to repeat.
+ */
+export async function runIdempotent<T extends Prisma.InputJsonValue>(
+  prisma: PrismaClient,
+  profileId: string,
+  key: string | undefined,
+  body: unknown,
+  run: () => Promise<T>
+): Promise<{ response: T; replayed: boolean }> {
+  if (!key) {
+    return { response: await run(), replayed: false };
+  }
+
+  const now = new Date();
+  const requestHash = createHash("sha256")
+    .update(JSON.stringify(body))
+    .digest("hex");
+  const stored = await prisma.idempotencyKey.findUnique({
+    where: { profileId_key: { profileId, key } },
+  });
+
+  if (stored && stored.expiresAt > now) {
+    if (stored.requestHash !== requestHash) {
+      throw new AppError(
+        "Idempotency-Key was already used for a different request",
+        422,
+        "IDEMPOTENCY_KEY_REUSED"
+      );
+    }
+    return { response: stored.response as T, replayed: true };
+  }
+
+  const response = await run();
+  const expiresAt = new Date(now.getTime() + KEY_TTL_HOURS * 60 * 60 * 1000);
+
+  await prisma.$transaction([
+    prisma.idempotencyKey.deleteMany({
+      where: { profileId, expiresAt: { lt: now } },
+    }),
+    prisma.idempotencyKey.upsert({
+      where: { profileId_key: { profileId, key } },
+      create: { profileId, key, requestHash, response, expiresAt },
+      update: { requestHash, response, expiresAt },
+    }),
+  ]);
+
+  return { response, replayed: false };
+}
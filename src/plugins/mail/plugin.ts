@@ -0,0 +1,15 @@
+import fp from "fastify-plugin";
+import { FastifyPluginAsync } from "fastify";
+import { MailTransport, createMailTransport } from "./transport";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    mailer: MailTransport;
+  }
+}
+
+const mailPlugin: FastifyPluginAsync = fp(async (server) => {
+  server.decorate("mailer", createMailTransport());
+});
+
+export default mailPlugin;
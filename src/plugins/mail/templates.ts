@@ -0,0 +1,60 @@
+import { MailMessage } from "./transport";
+
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+
+export function passwordResetMail(to: string, token: string): MailMessage {
+  return {
+    to,
+    subject: "Reset your Samay password",
+    text: `We received a request to reset your password.
+
+Reset it here: ${APP_URL}/reset-password?token=${token}
+
+The link expires in one hour. If you did not ask for this, you can ignore this email.`,
+  };
+}
+
+export function emailVerificationMail(to: string, token: string): MailMessage {
+  return {
+    to,
+    subject: "Verify your email for Samay",
+    text: `Welcome to Samay!
+
+Verify your email address here: ${APP_URL}/verify-email?token=${token}`,
+  };
+}
+
+export function invitationMail(
+  to: string,
+  token: string,
+  workspaceName: string,
+  inviterName: string
+): MailMessage {
+  return {
+    to,
+    subject: `${inviterName} invited you to ${workspaceName} on Samay`,
+    text: `${inviterName} invited you to join the "${workspaceName}" workspace.
+
+Accept the invitation here: ${APP_URL}/accept-invite?token=${token}
+
+The invitation expires in 7 days.`,
+  };
+}
+
+export function budgetAlertMail(
+  to: string,
+  projectName: string,
+  threshold: number,
+  usage: string
+): MailMessage {
+  return {
+    to,
+    subject:
+      threshold >= 100
+        ? `${projectName} has used its budget`
+        : `${projectName} has used ${threshold}% of its budget`,
+    text: `The "${projectName}" project has used ${usage} of its budget.
+
+See the burn-down here: ${APP_URL}/projects`,
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { encodeHeader, formatMessage } from "./transport";
+
+function headers(raw: string): string[] {
+  return raw.slice(0, raw.indexOf("\r\n\r\n")).split("\r\n");
+}
+
+describe("formatMessage", () => {
+  it("keeps line breaks in a subject from starting new headers", () => {
+    const raw = formatMessage({
+      to: "jane@acme.com",
+      subject: "Acme\r\nBcc: everyone@example.com\nX-Injected: 1",
+      text: "Hello",
+    });
+
+    const lines = headers(raw);
+    expect(lines.some((line) => line.startsWith("Bcc:"))).toBe(false);
+    expect(lines.some((line) => line.startsWith("X-Injected:"))).toBe(false);
+    expect(lines).toContain(
+      "Subject: Acme Bcc: everyone@example.com X-Injected: 1"
+    );
+  });
+
+  it("sends the body with CRLF line endings", () => {
+    const raw = formatMessage({
+      to: "jane@acme.com",
+      subject: "Hi",
+      text: "one\ntwo\r\nthree\rfour",
+    });
+
+    expect(raw.endsWith("\r\n\r\none\r\ntwo\r\nthree\r\nfour")).toBe(true);
+  });
+});
+
+describe("encodeHeader", () => {
+  it("encodes non-ASCII text as RFC 2047 words", () => {
+    const encoded = encodeHeader("Priya invited you to Zeiterfassung für Ärzte");
+    const words = encoded.split("\r\n ");
+
+    expect(words.every((word) => /^=\?UTF-8\?B\?[\w+/=]+\?=$/.test(word))).toBe(
+      true
+    );
+    expect(words.every((word) => word.length <= 75)).toBe(true);
+    expect(
+      words
+        .map((word) => Buffer.from(word.slice(10, -2), "base64").toString())
+        .join("")
+    ).toBe("Priya invited you to Zeiterfassung für Ärzte");
+  });
+});
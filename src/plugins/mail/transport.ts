@@ -0,0 +1,168 @@
+import { promises as fs } from "fs";
+import path from "path";
+import net from "net";
+import { randomUUID } from "crypto";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "Samay <no-reply@samay.local>";
+
+// UTF-8 bytes per RFC 2047 encoded word, keeping each within 75 chars
+const ENCODED_WORD_BYTES = 45;
+
+/**
+ * Make a header value safe to send. Line breaks are folded into spaces so
+ * user-controlled names can't start new headers, and non-ASCII text is
+ * sent as RFC 2047 encoded words.
+ */
+export function encodeHeader(value: string): string {
+  const singleLine = value.replace(/[\r\n]+/g, " ");
+  if (/^[\x20-\x7e]*$/.test(singleLine)) {
+    return singleLine;
+  }
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of singleLine) {
+    if (Buffer.byteLength(chunk + char) > ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`)
+    .join("\r\n ");
+}
+
+/**
+ * Build a plain-text RFC 5322 message with CRLF line endings
+ */
+export function formatMessage(message: MailMessage): string {
+  return [
+    `From: ${MAIL_FROM}`,
+    `To: ${encodeHeader(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@samay.local>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text.replace(/\r\n|\r|\n/g, "\r\n"),
+  ].join("\r\n");
+}
+
+/**
+ * Writes every message as an .eml file into a local outbox directory.
+ * Default transport for local development and testing.
+ */
+export class FileOutboxTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${randomUUID()}.eml`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      formatMessage(message)
+    );
+  }
+}
+
+/**
+ * Minimal unauthenticated SMTP client, meant for local mail catchers
+ * such as Mailpit or MailHog.
+ */
+export class SmtpTransport implements MailTransport {
+  constructor(
+    private readonly host: string,
+    private readonly port: number
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    if (/[\r\n<>]/.test(message.to)) {
+      throw new Error("Invalid mail recipient");
+    }
+
+    const from = MAIL_FROM.match(/<(.+)>/)?.[1] || MAIL_FROM;
+    // Dot-stuff lines starting with "." as required by RFC 5321
+    const body = formatMessage(message).replace(/^\./gm, "..");
+
+    const commands = [
+      "EHLO samay.local",
+      `MAIL FROM:<${from}>`,
+      `RCPT TO:<${message.to}>`,
+      "DATA",
+      `${body}\r\n.`,
+      "QUIT",
+    ];
+
+    await new Promise<void>((resolve, reject) => {
+      const socket = net.createConnection(this.port, this.host);
+      let buffer = "";
+      let step = 0;
+
+      socket.setEncoding("utf8");
+      socket.setTimeout(10000, () => {
+        socket.destroy(new Error("SMTP connection timed out"));
+      });
+      socket.on("error", reject);
+      socket.on("close", () => {
+        if (step < commands.length) {
+          reject(new Error("SMTP connection closed unexpectedly"));
+        }
+      });
+      socket.on("data", (chunk: string) => {
+        buffer += chunk;
+        // Wait for the last line of a (possibly multi-line) reply
+        const lines = buffer.split("\r\n").filter(Boolean);
+        const last = lines[lines.length - 1];
+        if (!last || !/^\d{3} /.test(last)) {
+          return;
+        }
+        buffer = "";
+
+        if (Number(last.slice(0, 3)) >= 400) {
+          socket.destroy();
+          reject(new Error(`SMTP error: ${last}`));
+          return;
+        }
+
+        if (step === commands.length) {
+          return;
+        }
+        socket.write(`${commands[step]}\r\n`);
+        step += 1;
+        if (step === commands.length) {
+          socket.end();
+          resolve();
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Pick the transport from the environment: SMTP when SMTP_HOST is set,
+ * otherwise the file outbox.
+ */
+export function createMailTransport(): MailTransport {
+  if (process.env.SMTP_HOST) {
+    return new SmtpTransport(
+      process.env.SMTP_HOST,
+      parseInt(process.env.SMTP_PORT || "1025")
+    );
+  }
+
+  return new FileOutboxTransport(process.env.MAIL_OUTBOX_DIR || "outbox");
+}
@@ -0,0 +1,77 @@
+import PDFDocument from "pdfkit";
+import { Readable } from "stream";
+
+export interface InvoiceDocument {
+  title: string;
+  // Lines under the title, e.g. project and period
+  details: string[];
+  columns: string[];
+  rows: string[][];
+  // Label and value pairs below the table
+  totals: Array<[string, string]>;
+}
+
+const MARGIN = 50;
+const ROW_HEIGHT = 18;
+// Share of the table width of each column after the first
+const NUMERIC_COLUMN_WIDTH = 0.15;
+
+/**
+ * Render a one-table invoice as a PDF stream. Text uses the built-in
+ * Helvetica, so characters outside Latin-1 don't render.
+ */
+export function renderInvoice(invoice: InvoiceDocument): Readable {
+  const doc = new PDFDocument({ size: "A4", margin: MARGIN });
+  const width = doc.page.width - MARGIN * 2;
+  const numericWidth = width * NUMERIC_COLUMN_WIDTH;
+  const firstWidth = width - numericWidth * (invoice.columns.length - 1);
+  const columnX = invoice.columns.map((_, index) =>
+    index === 0 ? MARGIN : MARGIN + firstWidth + numericWidth * (index - 1)
+  );
+
+  const drawRow = (values: string[], font: string) => {
+    if (doc.y + ROW_HEIGHT > doc.page.height - MARGIN) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    doc.font(font).fontSize(10);
+    values.forEach((value, index) => {
+      doc.text(value, columnX[index], y, {
+        width: (index === 0 ? firstWidth : numericWidth) - 6,
+        align: index === 0 ? "left" : "right",
+        lineBreak: false,
+        ellipsis: true,
+      });
+    });
+    doc.x = MARGIN;
+    doc.y = y + ROW_HEIGHT;
+  };
+
+  doc.font("Helvetica-Bold").fontSize(20).text(invoice.title);
+  doc.moveDown(0.5);
+  doc.font("Helvetica").fontSize(11);
+  for (const line of invoice.details) {
+    doc.text(line);
+  }
+  doc.moveDown(1.5);
+
+  drawRow(invoice.columns, "Helvetica-Bold");
+  doc
+    .moveTo(MARGIN, doc.y - 4)
+    .lineTo(MARGIN + width, doc.y - 4)
+    .stroke();
+  for (const row of invoice.rows) {
+    drawRow(row, "Helvetica");
+  }
+
+  doc.moveDown(1);
+  for (const [label, value] of invoice.totals) {
+    drawRow(
+      [label, ...Array(invoice.columns.length - 2).fill(""), value],
+      "Helvetica-Bold"
+    );
+  }
+
+  doc.end();
+  return doc;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { ProjectRule } from "@prisma/client";
+import { compileRules, matchProjectRule, titlePatternError } from "./matcher";
+
+function rule(overrides: Partial<ProjectRule>): ProjectRule {
+  return {
+    id: 1,
+    projectId: 7,
+    profileId: null,
+    app: null,
+    titlePattern: null,
+    urlPattern: null,
+    tag: null,
+    priority: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const activity = {
+  profileId: "profile-1",
+  app: "Code",
+  title: "",
+  url: "",
+};
+
+describe("title patterns", () => {
+  it("match case-insensitively", () => {
+    const rules = compileRules([rule({ titlePattern: "^samay-(be|fe)\\b" })]);
+
+    expect(
+      matchProjectRule(rules, { ...activity, title: "Samay-BE - service.ts" })
+    ).toMatchObject({ projectId: 7 });
+  });
+
+  it("match catastrophic backtracking patterns in linear time", () => {
+    const rules = compileRules([rule({ titlePattern: "(a+)+$" })]);
+    const started = Date.now();
+
+    const match = matchProjectRule(rules, {
+      ...activity,
+      title: `${"a".repeat(100_000)}!`,
+    });
+
+    expect(match).toBeUndefined();
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("reject backreferences", () => {
+    expect(titlePatternError("(a)\\1")).not.toBeNull();
+  });
+
+  it("keep matching after many other patterns were compiled", () => {
+    const rules = compileRules([rule({ titlePattern: "^release-\\d+$" })]);
+    for (let i = 0; i < 1500; i++) {
+      titlePatternError(`^pattern-${i}$`);
+    }
+
+    expect(
+      matchProjectRule(rules, { ...activity, title: "release-42" })
+    ).toMatchObject({ projectId: 7 });
+  });
+});
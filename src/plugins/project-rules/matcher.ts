@@ -0,0 +1,181 @@
+import { Prisma, ProjectRule } from "@prisma/client";
+import { RE2 } from "re2-wasm";
+
+export interface MatchableActivity {
+  profileId: string;
+  app: string;
+  title: string;
+  url: string;
+  autoTags?: string | null;
+}
+
+export interface CompiledRule {
+  id: number;
+  projectId: number;
+  profileId: string | null;
+  app: string | null;
+  tag: string | null;
+  title: RE2 | null;
+  url: RegExp | null;
+}
+
+/**
+ * Load the rules that may assign a profile's activities, best first. Only
+ * rules of projects the profile is an active member of apply, and not of
+ * archived or deleted ones.
+ */
+export async function getApplicableRules(
+  prisma: Prisma.TransactionClient,
+  profileId: string
+): Promise<CompiledRule[]> {
+  const rules = await prisma.projectRule.findMany({
+    where: {
+      OR: [{ profileId: null }, { profileId }],
+      project: {
+        archivedAt: null,
+        deletedAt: null,
+        users: { some: { profileId, active: true } },
+      },
+    },
+    orderBy: [{ priority: "desc" }, { id: "asc" }],
+  });
+
+  return compileRules(rules);
+}
+
+/**
+ * Precompile patterns, rules with a pattern that no longer compiles are
+ * left out
+ */
+export function compileRules(rules: ProjectRule[]): CompiledRule[] {
+  return rules.flatMap((rule) => {
+    try {
+      return [
+        {
+          id: rule.id,
+          projectId: rule.projectId,
+          profileId: rule.profileId,
+          app: rule.app,
+          tag: rule.tag,
+          title: rule.titlePattern
+            ? compileTitlePattern(rule.titlePattern)
+            : null,
+          url: rule.urlPattern ? globToRegExp(rule.urlPattern) : null,
+        },
+      ];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * First rule all of whose conditions match the activity
+ */
+export function matchProjectRule(
+  rules: CompiledRule[],
+  activity: MatchableActivity
+): CompiledRule | undefined {
+  let location: string | null | undefined;
+
+  return rules.find((rule) => {
+    if (rule.profileId && rule.profileId !== activity.profileId) return false;
+    if (rule.app && rule.app.toLowerCase() !== activity.app.toLowerCase()) {
+      return false;
+    }
+    if (rule.tag && rule.tag !== activity.autoTags) return false;
+    if (rule.title && !rule.title.test(activity.title)) return false;
+    if (rule.url) {
+      location ??= urlLocation(activity.url);
+      if (location === null || !rule.url.test(location)) return false;
+    }
+    return true;
+  });
+}
+
+// Distinct title patterns kept compiled, edited and deleted rules leave
+// theirs behind until they are the least recently used
+const MAX_TITLE_PATTERNS = 1000;
+
+// Compiled title patterns by source, least recently used first
+const titlePatterns = new Map<string, RE2>();
+
+// RE2 keeps its program in WASM memory the garbage collector doesn't see.
+// It's freed once an evicted pattern isn't held by any compiled rule.
+const wasmPrograms = new FinalizationRegistry<{ delete(): void }>((program) =>
+  program.delete()
+);
+
+/**
+ * Compile a title pattern with RE2. Its matching time is linear in the
+ * title, so a user's pattern can't stall the event loop the way a
+ * backtracking RegExp like `(a+)+$` does.
+ */
+function compileTitlePattern(pattern: string): RE2 {
+  let compiled = titlePatterns.get(pattern);
+  if (compiled) {
+    titlePatterns.delete(pattern);
+  } else {
+    compiled = new RE2(pattern, "iu");
+    // re2-wasm keeps the program in a private field and has no dispose
+    wasmPrograms.register(
+      compiled,
+      (compiled as unknown as { wrapper: { delete(): void } }).wrapper
+    );
+  }
+
+  titlePatterns.set(pattern, compiled);
+  if (titlePatterns.size > MAX_TITLE_PATTERNS) {
+    titlePatterns.delete(titlePatterns.keys().next().value as string);
+  }
+  return compiled;
+}
+
+/**
+ * Check a title pattern compiles, returning the error message if it doesn't
+ */
+export function titlePatternError(pattern: string): string | null {
+  try {
+    compileTitlePattern(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid pattern";
+  }
+}
+
+/**
+ * Compile a glob over host and path. `*` matches within a path segment,
+ * `**` across segments.
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .toLowerCase()
+    .split("**")
+    .map((part) =>
+      part
+        .split("*")
+        .map((literal) => literal.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join("[^/]*")
+    )
+    .join(".*");
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Host and path of a URL without scheme, query or fragment, e.g.
+ * github.com/acme/api
+ */
+function urlLocation(url: string): string | null {
+  if (!url) return null;
+
+  try {
+    const parsed = new URL(
+      /^[a-z][a-z\d+.-]*:\/\//i.test(url) ? url : `http://${url}`
+    );
+    const path = parsed.pathname.replace(/\/$/, "");
+    return `${parsed.hostname}${path}`.toLowerCase();
+  } catch {
+    return null;
+  }
+}
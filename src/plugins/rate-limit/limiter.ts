@@ -0,0 +1,150 @@
+import NodeCache from "node-cache";
+import { TooManyRequestsError } from "../error/plugin";
+
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface LockoutPolicy {
+  // Failures allowed before the first lockout
+  maxAttempts: number;
+  // Window in which failures are counted
+  windowSeconds: number;
+  // First lockout duration, doubled for every further failure
+  baseLockSeconds: number;
+  maxLockSeconds: number;
+}
+
+interface CounterEntry {
+  count: number;
+  resetAt: number;
+}
+
+/**
+ * Storage used by the rate limiter. The in-process store is enough for a
+ * single instance; a shared store (e.g. Redis) can implement the same
+ * interface when running multiple instances.
+ */
+export interface RateLimitStore {
+  increment(
+    key: string,
+    amount: number,
+    windowSeconds: number
+  ): Promise<CounterEntry>;
+  get(key: string): Promise<CounterEntry | undefined>;
+  set(key: string, entry: CounterEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-process store backed by node-cache
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly cache = new NodeCache({ checkperiod: 60 });
+
+  async increment(
+    key: string,
+    amount: number,
+    windowSeconds: number
+  ): Promise<CounterEntry> {
+    const now = Date.now();
+    const existing = this.cache.get<CounterEntry>(key);
+    const entry =
+      existing && existing.resetAt > now
+        ? { count: existing.count + amount, resetAt: existing.resetAt }
+        : { count: amount, resetAt: now + windowSeconds * 1000 };
+
+    await this.set(key, entry);
+    return entry;
+  }
+
+  async get(key: string): Promise<CounterEntry | undefined> {
+    return this.cache.get<CounterEntry>(key);
+  }
+
+  async set(key: string, entry: CounterEntry): Promise<void> {
+    const ttl = Math.max(1, Math.ceil((entry.resetAt - Date.now()) / 1000));
+    this.cache.set(key, entry, ttl);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.cache.del(key);
+  }
+}
+
+const secondsUntil = (timestamp: number) =>
+  Math.max(1, Math.ceil((timestamp - Date.now()) / 1000));
+
+export class RateLimiter {
+  constructor(private readonly store: RateLimitStore) {}
+
+  /**
+   * Count `cost` units against a key, throwing 429 once the limit is exceeded
+   */
+  async consume(
+    key: string,
+    rule: RateLimitRule,
+    cost: number = 1
+  ): Promise<void> {
+    const entry = await this.store.increment(
+      `rate:${key}`,
+      cost,
+      rule.windowSeconds
+    );
+
+    if (entry.count > rule.limit) {
+      throw new TooManyRequestsError(
+        "Too many requests, please try again later",
+        secondsUntil(entry.resetAt)
+      );
+    }
+  }
+
+  /**
+   * Throw 429 while a key is locked out
+   */
+  async assertNotLocked(key: string): Promise<void> {
+    const lock = await this.store.get(`lock:${key}`);
+
+    if (lock && lock.resetAt > Date.now()) {
+      throw new TooManyRequestsError(
+        "Too many failed attempts, please try again later",
+        secondsUntil(lock.resetAt)
+      );
+    }
+  }
+
+  /**
+   * Record a failed attempt and lock the key out progressively
+   */
+  async registerFailure(key: string, policy: LockoutPolicy): Promise<void> {
+    const failures = await this.store.increment(
+      `fail:${key}`,
+      1,
+      policy.windowSeconds
+    );
+
+    if (failures.count < policy.maxAttempts) {
+      return;
+    }
+
+    const lockSeconds = Math.min(
+      policy.baseLockSeconds * 2 ** (failures.count - policy.maxAttempts),
+      policy.maxLockSeconds
+    );
+
+    await this.store.set(`lock:${key}`, {
+      count: failures.count,
+      resetAt: Date.now() + lockSeconds * 1000,
+    });
+  }
+
+  /**
+   * Clear failures and lockout of a key, e.g. after a successful login
+   */
+  async reset(key: string): Promise<void> {
+    await this.store.delete(`fail:${key}`);
+    await this.store.delete(`lock:${key}`);
+  }
+}
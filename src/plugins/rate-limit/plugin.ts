@@ -0,0 +1,15 @@
+import fp from "fastify-plugin";
+import { FastifyPluginAsync } from "fastify";
+import { MemoryRateLimitStore, RateLimiter } from "./limiter";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    rateLimiter: RateLimiter;
+  }
+}
+
+const rateLimitPlugin: FastifyPluginAsync = fp(async (server) => {
+  server.decorate("rateLimiter", new RateLimiter(new MemoryRateLimitStore()));
+});
+
+export default rateLimitPlugin;
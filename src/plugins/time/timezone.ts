@@ -0,0 +1,146 @@
+export const DEFAULT_TIMEZONE = "UTC";
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Intl formatters are expensive to build, cache one per zone
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of getPartsFormatter(timeZone).formatToParts(
+    date
+  )) {
+    if (type !== "literal") parts[type] = parseInt(value, 10);
+  }
+  return parts;
+}
+
+/**
+ * Offset of a zone from UTC at the given instant, in milliseconds
+ */
+function getOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(
+    date,
+    timeZone
+  );
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Check that a string is an IANA timezone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Profile timezone, falling back to the workspace default
+ */
+export function resolveTimeZone(
+  profileTimeZone: string | null | undefined,
+  workspaceTimeZone: string | null | undefined
+): string {
+  return profileTimeZone || workspaceTimeZone || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a timezone
+ */
+export function getLocalDate(value: string | Date, timeZone: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "";
+
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+/**
+ * Hour of the day (0-23) of an instant in a timezone
+ */
+export function getLocalHour(date: Date, timeZone: string): number {
+  return getZonedParts(date, timeZone).hour;
+}
+
+/**
+ * Format the wall-clock time of an instant, e.g. "09:30 am"
+ */
+export function formatLocalTime(
+  value: string | Date,
+  timeZone: string
+): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return String(value);
+
+  return date.toLocaleTimeString("en-US", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: true,
+  });
+}
+
+/**
+ * Shift a calendar date (YYYY-MM-DD) by a number of days
+ */
+export function addDays(localDate: string, days: number): string {
+  const date = new Date(`${localDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * UTC instants bounding a calendar day in a timezone. The end is exclusive
+ * and days around DST changes are 23 or 25 hours long.
+ */
+export function getZonedDayRange(
+  localDate: string,
+  timeZone: string
+): { start: Date; end: Date } {
+  return {
+    start: getZonedMidnight(localDate, timeZone),
+    end: getZonedMidnight(addDays(localDate, 1), timeZone),
+  };
+}
+
+function getZonedMidnight(localDate: string, timeZone: string): Date {
+  return getZonedInstant(`${localDate}T00:00:00`, timeZone);
+}
+
+/**
+ * Instant of a wall-clock date-time (YYYY-MM-DDTHH:mm:ss) in a timezone,
+ * e.g. for exports that carry no offset. Returns an invalid date if the
+ * value doesn't parse.
+ */
+export function getZonedInstant(localDateTime: string, timeZone: string): Date {
+  const wallClock = new Date(`${localDateTime}Z`).getTime();
+  if (isNaN(wallClock)) return new Date(NaN);
+
+  // Correct the guess once more in case it crossed a DST change
+  const guess = wallClock - getOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getOffset(new Date(guess), timeZone));
+}